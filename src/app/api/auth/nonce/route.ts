@@ -1,11 +1,14 @@
 import { NextResponse } from 'next/server';
-import { getNeynarClient } from '~/lib/neynar';
+import { issueSiweNonce } from '~/lib/siwe';
 
+/**
+ * A single-use nonce for a Sign-In with Ethereum message, valid for ten
+ * minutes.
+ */
 export async function GET() {
   try {
-    const client = getNeynarClient();
-    const response = await client.fetchNonce();
-    return NextResponse.json(response);
+    const nonce = await issueSiweNonce();
+    return NextResponse.json({ nonce });
   } catch (error) {
     console.error('Error fetching nonce:', error);
     return NextResponse.json(
@@ -0,0 +1,18 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession } from '~/lib/session';
+
+/**
+ * The caller's session, or `{ session: null }` without valid credentials.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getSession(request);
+    return NextResponse.json({ session });
+  } catch (error) {
+    console.error('Session verification error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
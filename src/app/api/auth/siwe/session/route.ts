@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSiweSessionFromRequest, signOutSiweSession, toPublicSiweSession } from '~/lib/siwe';
+
+/**
+ * The current SIWE session, or `{ session: null }` when signed out.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getSiweSessionFromRequest(request);
+    return NextResponse.json({ session: session ? toPublicSiweSession(session) : null });
+  } catch (error) {
+    console.error('Failed to load SIWE session:', error);
+    return NextResponse.json(
+      { error: 'Failed to load session' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Signs out.
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    const response = NextResponse.json({ success: true });
+    await signOutSiweSession(request, response);
+    return response;
+  } catch (error) {
+    console.error('Failed to sign out:', error);
+    return NextResponse.json(
+      { error: 'Failed to sign out' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isHex, type Hex } from 'viem';
+import { z } from 'zod';
+import { setSiweSessionCookie, signInWithEthereum, toPublicSiweSession } from '~/lib/siwe';
+
+const requestSchema = z.object({
+  message: z.string().max(2000),
+  signature: z.string().refine((value): value is Hex => isHex(value) && value.length > 2),
+});
+
+/**
+ * Verifies a signed SIWE message and sets the session cookie.
+ */
+export async function POST(request: NextRequest) {
+  const requestJson = await request.json();
+  const requestBody = requestSchema.safeParse(requestJson);
+
+  if (requestBody.success === false) {
+    return NextResponse.json(
+      { success: false, errors: requestBody.error.errors },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const { message, signature } = requestBody.data;
+    const result = await signInWithEthereum(request, { message, signature });
+    if (result.error) {
+      return NextResponse.json({ error: result.error }, { status: 401 });
+    }
+
+    const response = NextResponse.json({ success: true, session: toPublicSiweSession(result.session) });
+    setSiweSessionCookie(response, result.session);
+    return response;
+  } catch (error) {
+    console.error('SIWE verification error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
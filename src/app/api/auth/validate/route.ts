@@ -1,7 +1,5 @@
 import { NextResponse } from 'next/server';
-import { createClient, Errors } from '@farcaster/quick-auth';
-
-const client = createClient();
+import { getQuickAuthDomain, verifyQuickAuthToken } from '~/lib/auth';
 
 export async function POST(request: Request) {
   try {
@@ -11,31 +9,17 @@ export async function POST(request: Request) {
       return NextResponse.json({ error: 'Token is required' }, { status: 400 });
     }
 
-    // Get domain from environment or request
-    const domain = process.env.NEXT_PUBLIC_URL
-      ? new URL(process.env.NEXT_PUBLIC_URL).hostname
-      : request.headers.get('host') || 'localhost';
-
-    try {
-      // Use the official QuickAuth library to verify the JWT
-      const payload = await client.verifyJwt({
-        token,
-        domain,
-      });
-
-      return NextResponse.json({
-        success: true,
-        user: {
-          fid: payload.sub,
-        },
-      });
-    } catch (e) {
-      if (e instanceof Errors.InvalidTokenError) {
-        console.info('Invalid token:', e.message);
-        return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
-      }
-      throw e;
+    // Use the official QuickAuth library to verify the JWT
+    const user = await verifyQuickAuthToken(token, getQuickAuthDomain(request));
+    if (!user) {
+      return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
     }
+
+    // `fid` stays the token's `sub` claim, a string, as callers expect
+    return NextResponse.json({
+      success: true,
+      user: { fid: String(user.fid) },
+    });
   } catch (error) {
     console.error('Token validation error:', error);
     return NextResponse.json(
@@ -43,4 +27,4 @@ export async function POST(request: Request) {
       { status: 500 },
     );
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,102 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { createBroadcast, toBroadcastSummary } from '~/lib/broadcast';
+import { isCronRequestAuthorized } from '~/lib/cron';
+import { getBroadcastCampaign, getBroadcastCampaignIds } from '~/lib/kv';
+import { NOTIFICATION_CATEGORIES, type NotificationCategory } from '~/lib/notificationPreferences';
+
+const requestSchema = z.object({
+  title: z.string().min(1).max(32),
+  body: z.string().min(1).max(128),
+  target: z
+    .object({
+      path: z.string().optional(),
+      tab: z.enum(['home', 'chat']).optional(),
+      prompt: z.string().optional(),
+      tx: z.string().optional(),
+    })
+    .optional(),
+  category: z
+    .enum(NOTIFICATION_CATEGORIES.map((info) => info.id) as [NotificationCategory, ...NotificationCategory[]])
+    .optional(),
+  /** Limits the campaign to these users; everyone with a token by default */
+  fids: z.array(z.number().int().positive()).min(1).optional(),
+});
+
+/**
+ * Starts a broadcast campaign, for admins holding the cron secret. The first
+ * round of batches is sent before responding; rate-limited tokens are
+ * retried by the `broadcast-retries` cron job.
+ */
+export async function POST(request: NextRequest) {
+  if (!isCronRequestAuthorized(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  // Neynar keeps the tokens, so there is nothing stored to broadcast to
+  if (process.env.NEYNAR_API_KEY && process.env.NEYNAR_CLIENT_ID) {
+    return NextResponse.json(
+      { error: 'Notification tokens are managed by Neynar; broadcast from the Neynar developer portal' },
+      { status: 409 }
+    );
+  }
+
+  const requestJson = await request.json();
+  const requestBody = requestSchema.safeParse(requestJson);
+
+  if (requestBody.success === false) {
+    return NextResponse.json(
+      { success: false, errors: requestBody.error.errors },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const { title, body, target, category, fids } = requestBody.data;
+    const campaign = await createBroadcast({ title, body, target, category, fids });
+    return NextResponse.json({ campaign: toBroadcastSummary(campaign) });
+  } catch (error) {
+    console.error('Failed to broadcast notification:', error);
+    return NextResponse.json(
+      { error: 'Failed to broadcast notification' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Delivery stats of one campaign (`?id=`) or of the recent ones (`?limit=`,
+ * default 10).
+ */
+export async function GET(request: NextRequest) {
+  if (!isCronRequestAuthorized(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const { searchParams } = new URL(request.url);
+  const id = searchParams.get('id');
+  const limit = Math.min(Number(searchParams.get('limit')) || 10, 50);
+
+  try {
+    if (id) {
+      const campaign = await getBroadcastCampaign(id);
+      if (!campaign) {
+        return NextResponse.json({ error: 'Campaign not found' }, { status: 404 });
+      }
+      return NextResponse.json({ campaign: toBroadcastSummary(campaign) });
+    }
+
+    const campaigns = await Promise.all(
+      (await getBroadcastCampaignIds(limit)).map((campaignId) => getBroadcastCampaign(campaignId))
+    );
+    return NextResponse.json({
+      campaigns: campaigns.filter((campaign) => campaign !== null).map(toBroadcastSummary),
+    });
+  } catch (error) {
+    console.error('Failed to load broadcasts:', error);
+    return NextResponse.json(
+      { error: 'Failed to load broadcasts' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,126 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isAddress, type Address } from 'viem';
+import { z } from 'zod';
+import { requireSession, sessionOwnsWallet, type SessionResult } from '~/lib/session';
+import { getChatSessions, setChatSessions } from '~/lib/kv';
+import {
+  MAX_CHAT_SESSIONS,
+  MAX_MESSAGE_CONTENT_LENGTH,
+  MAX_SESSION_MESSAGES,
+  type StoredChatSession,
+} from '~/lib/chatSessions';
+import { WALLET_PROOF_HEADER, getWalletProofHeader } from '~/lib/walletProof';
+
+const addressSchema = z.string().refine((value): value is Address => isAddress(value));
+
+const storedChatSessionSchema = z.object({
+  id: z.string(),
+  title: z.string().max(200),
+  createdAt: z.number(),
+  updatedAt: z.number(),
+  messages: z.array(
+    z.object({
+      id: z.string(),
+      type: z.enum(['user', 'assistant', 'system']),
+      content: z.string().max(MAX_MESSAGE_CONTENT_LENGTH),
+      timestamp: z.string(),
+      attachments: z.array(z.unknown()).optional(),
+    })
+  ).max(MAX_SESSION_MESSAGES),
+  pendingTransaction: z.unknown().nullable(),
+});
+
+const requestSchema = z.object({
+  fid: z.number(),
+  address: addressSchema,
+  sessions: z.array(storedChatSessionSchema).max(MAX_CHAT_SESSIONS),
+});
+
+/**
+ * Chat history is only readable and writable by the FID's user, for wallets
+ * they control. Wallets that are not verified on the user's Farcaster
+ * account are proven by a wallet proof in the WALLET_PROOF_HEADER.
+ */
+async function requireOwner(request: NextRequest, fid: number, address: Address): Promise<SessionResult> {
+  const walletProof = getWalletProofHeader(request);
+  if (walletProof === null) {
+    return {
+      response: NextResponse.json(
+        { error: `Invalid ${WALLET_PROOF_HEADER} header` },
+        { status: 400 }
+      ),
+    };
+  }
+
+  const auth = await requireSession(request, { fid });
+  if (auth.response) {
+    return auth;
+  }
+  if (!(await sessionOwnsWallet(request, auth.session, address, walletProof))) {
+    return {
+      response: NextResponse.json(
+        { error: 'address is not a verified wallet of the signed-in user', code: 'wallet_not_verified' },
+        { status: 403 }
+      ),
+    };
+  }
+  return auth;
+}
+
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const fid = Number(searchParams.get('fid'));
+  const address = addressSchema.safeParse(searchParams.get('address'));
+
+  if (!fid || !address.success) {
+    return NextResponse.json(
+      { error: 'fid and address parameters are required' },
+      { status: 400 }
+    );
+  }
+
+  const auth = await requireOwner(request, fid, address.data);
+  if (auth.response) {
+    return auth.response;
+  }
+
+  try {
+    const sessions = await getChatSessions(fid, address.data);
+    return NextResponse.json({ sessions: sessions ?? [] });
+  } catch (error) {
+    console.error('Failed to load chat sessions:', error);
+    return NextResponse.json(
+      { error: 'Failed to load chat sessions' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  const requestJson = await request.json();
+  const requestBody = requestSchema.safeParse(requestJson);
+
+  if (requestBody.success === false) {
+    return NextResponse.json(
+      { success: false, errors: requestBody.error.errors },
+      { status: 400 }
+    );
+  }
+
+  const auth = await requireOwner(request, requestBody.data.fid, requestBody.data.address);
+  if (auth.response) {
+    return auth.response;
+  }
+
+  try {
+    const { fid, address, sessions } = requestBody.data;
+    await setChatSessions(fid, address, sessions as StoredChatSession[]);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Failed to save chat sessions:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to save chat sessions' },
+      { status: 500 }
+    );
+  }
+}
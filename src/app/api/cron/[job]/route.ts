@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { CRON_JOBS, isCronRequestAuthorized, runCronJob } from '~/lib/cron';
+
+/**
+ * Runs a scheduled job. Vercel Cron invokes it with GET.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ job: string }> }
+) {
+  if (!isCronRequestAuthorized(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const { job } = await params;
+  if (!CRON_JOBS[job]) {
+    return NextResponse.json({ error: `Unknown job: ${job}` }, { status: 404 });
+  }
+
+  try {
+    const run = await runCronJob(job);
+    // Skipped runs are not errors: the overlapping run does the work
+    return NextResponse.json(run, { status: run.status === 'failed' ? 500 : 200 });
+  } catch (error) {
+    console.error(`Failed to run cron job ${job}:`, error);
+    return NextResponse.json(
+      { error: 'Failed to run job' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { CRON_JOBS, isCronRequestAuthorized } from '~/lib/cron';
+import { getCronRuns } from '~/lib/kv';
+
+/**
+ * Lists the registered jobs with their recent runs, for admins holding the
+ * cron secret. `?job=<name>` limits the list to one job and `?limit=` sets
+ * the number of runs per job (default 10).
+ */
+export async function GET(request: NextRequest) {
+  if (!isCronRequestAuthorized(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const { searchParams } = new URL(request.url);
+  const jobFilter = searchParams.get('job');
+  const limit = Math.min(Number(searchParams.get('limit')) || 10, 50);
+
+  if (jobFilter && !CRON_JOBS[jobFilter]) {
+    return NextResponse.json({ error: `Unknown job: ${jobFilter}` }, { status: 404 });
+  }
+
+  try {
+    const names = jobFilter ? [jobFilter] : Object.keys(CRON_JOBS);
+    const jobs = await Promise.all(
+      names.map(async (name) => ({
+        name,
+        description: CRON_JOBS[name].description,
+        schedule: CRON_JOBS[name].schedule,
+        runs: await getCronRuns(name, limit),
+      }))
+    );
+    return NextResponse.json({ jobs });
+  } catch (error) {
+    console.error('Failed to load cron runs:', error);
+    return NextResponse.json(
+      { error: 'Failed to load cron runs' },
+      { status: 500 }
+    );
+  }
+}
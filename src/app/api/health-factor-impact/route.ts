@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { arbitrum } from 'viem/chains';
+import { isAddress, type Address } from 'viem';
+import { txPlanEntrySchema } from '~/lib/agentSchema';
+import { projectHealthFactor } from '~/lib/healthFactor';
+import { describeRevert } from '~/lib/txSimulation';
+import { requireSession } from '~/lib/session';
+import {
+  SIMULATION_RATE_LIMITS,
+  checkRateLimits,
+  getClientIp,
+  rateLimitResponse,
+} from '~/lib/rateLimit';
+
+const requestSchema = z.object({
+  account: z.string().refine((value): value is Address => isAddress(value)),
+  txPlan: z.array(txPlanEntrySchema).min(1).max(10),
+});
+
+export async function POST(request: NextRequest) {
+  // Malformed JSON fails validation below like any other invalid body
+  const requestJson = await request.json().catch(() => null);
+  const requestBody = requestSchema.safeParse(requestJson);
+
+  if (requestBody.success === false) {
+    return NextResponse.json(
+      { success: false, errors: requestBody.error.errors },
+      { status: 400 }
+    );
+  }
+
+  const { account, txPlan } = requestBody.data;
+  if (txPlan.some((entry) => Number(entry.chainId) !== arbitrum.id)) {
+    return NextResponse.json(
+      { error: 'Health factor projection is only available for Arbitrum transactions' },
+      { status: 400 }
+    );
+  }
+
+  const auth = await requireSession(request);
+  if (auth.response) {
+    return auth.response;
+  }
+
+  const rateLimit = await checkRateLimits(SIMULATION_RATE_LIMITS, {
+    fid: auth.session.fid,
+    ip: getClientIp(request),
+  });
+  if (rateLimit.allowed === false) {
+    return rateLimitResponse(rateLimit);
+  }
+
+  try {
+    const projection = await projectHealthFactor(txPlan, account);
+    return NextResponse.json({ projection });
+  } catch (error) {
+    console.error('Failed to project health factor:', error);
+    return NextResponse.json(
+      { error: `Could not read the Aave position: ${describeRevert(error)}` },
+      { status: 502 }
+    );
+  }
+}
@@ -0,0 +1,106 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isAddress, type Address } from 'viem';
+import { z } from 'zod';
+import { requireSession, sessionOwnsWallet } from '~/lib/session';
+import { deleteHealthMonitor, getHealthMonitor } from '~/lib/kv';
+import { MAX_HEALTH_THRESHOLDS } from '~/lib/constants';
+import { subscribeHealthMonitor } from '~/lib/healthMonitor';
+
+const requestSchema = z.object({
+  fid: z.number(),
+  address: z.string().refine((value): value is Address => isAddress(value)),
+  thresholds: z.array(z.number().gt(1).max(10)).min(1).max(MAX_HEALTH_THRESHOLDS),
+});
+
+function getFid(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  return Number(searchParams.get('fid'));
+}
+
+export async function GET(request: NextRequest) {
+  const fid = getFid(request);
+  if (!fid) {
+    return NextResponse.json(
+      { error: 'fid parameter is required' },
+      { status: 400 }
+    );
+  }
+
+  // The subscription reveals which wallet the user watches
+  const auth = await requireSession(request, { fid });
+  if (auth.response) {
+    return auth.response;
+  }
+
+  try {
+    const subscription = await getHealthMonitor(fid);
+    return NextResponse.json({ subscription });
+  } catch (error) {
+    console.error('Failed to load health monitor:', error);
+    return NextResponse.json(
+      { error: 'Failed to load health monitor' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  const requestJson = await request.json();
+  const requestBody = requestSchema.safeParse(requestJson);
+
+  if (requestBody.success === false) {
+    return NextResponse.json(
+      { success: false, errors: requestBody.error.errors },
+      { status: 400 }
+    );
+  }
+
+  const { fid, address, thresholds } = requestBody.data;
+  const auth = await requireSession(request, { fid });
+  if (auth.response) {
+    return auth.response;
+  }
+  if (!(await sessionOwnsWallet(request, auth.session, address))) {
+    return NextResponse.json(
+      { success: false, error: 'address is not a verified wallet of the signed-in user' },
+      { status: 403 }
+    );
+  }
+
+  try {
+    const subscription = await subscribeHealthMonitor(fid, address, thresholds);
+    return NextResponse.json({ subscription });
+  } catch (error) {
+    console.error('Failed to save health monitor:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to save health monitor' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  const fid = getFid(request);
+  if (!fid) {
+    return NextResponse.json(
+      { error: 'fid parameter is required' },
+      { status: 400 }
+    );
+  }
+
+  const auth = await requireSession(request, { fid: fid });
+  if (auth.response) {
+    return auth.response;
+  }
+
+  try {
+    await deleteHealthMonitor(fid);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Failed to delete health monitor:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to delete health monitor' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,9 +1,60 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { isAddress } from 'viem';
+import { z } from 'zod';
+import {
+  AGENT_STREAM_CONTENT_TYPE,
+  encodeAgentStreamEvent,
+  readServerSentEvents,
+  type AgentStreamEvent,
+} from '~/lib/agentStream';
+import {
+  agentResponseSchema,
+  artifactSchema,
+  formatSchemaIssues,
+  getMessageText,
+  taskUpdateSchema,
+  toolProgressSchema,
+  type AgentTaskStatus,
+} from '~/lib/agentSchema';
+import { getAgentConversation, setAgentConversation } from '~/lib/kv';
+import { requireSession, sessionOwnsWallet } from '~/lib/session';
+import {
+  LENDING_AGENT_RATE_LIMITS,
+  checkRateLimits,
+  getClientIp,
+  rateLimitResponse,
+} from '~/lib/rateLimit';
+import {
+  getLendingAgentBackend,
+  recordConversationTurn,
+  withConversation,
+  type LendingAgentRequest,
+} from '~/lib/lendingAgent';
+import { type AgentResponse } from '~/lib/agentSchema';
+import { walletProofSchema } from '~/lib/walletProof';
+
+const INVALID_RESPONSE_ERROR = 'Unexpected response from lending agent';
+
+const SESSION_ID_PATTERN = /^[\w-]{1,64}$/;
+
+/** JSON-RPC envelope some agents wrap streamed events in */
+const jsonRpcResultSchema = z.object({
+  jsonrpc: z.string(),
+  result: z.unknown(),
+});
+
+/** A complete `{ success, data }` envelope or a task, which ends the stream */
+const finalEventSchema = z
+  .object({
+    success: z.boolean().optional(),
+    kind: z.string().optional(),
+  })
+  .refine((event) => event.success !== undefined || event.kind === 'task');
 
 export async function POST(req: NextRequest) {
   try {
     const body = await req.json();
-    const { instruction, userAddress } = body;
+    const { instruction, userAddress, stream, sessionId } = body;
 
     if (!instruction || !userAddress) {
       return NextResponse.json(
@@ -12,25 +63,91 @@ export async function POST(req: NextRequest) {
       );
     }
 
-    // Make the request to the external lending agent API
-    const response = await fetch('https://lending-agent.xcan.dev/agent', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        instruction,
-        userAddress,
-      }),
+    const walletProof = walletProofSchema.optional().safeParse(body.walletProof);
+    if (!isAddress(userAddress) || !walletProof.success) {
+      return NextResponse.json(
+        { error: 'Invalid userAddress or walletProof' },
+        { status: 400 }
+      );
+    }
+
+    const auth = await requireSession(req);
+    if (auth.response) {
+      return auth.response;
+    }
+    const { session } = auth;
+
+    const rateLimit = await checkRateLimits(LENDING_AGENT_RATE_LIMITS, {
+      fid: session.fid,
+      ip: getClientIp(req),
     });
+    if (rateLimit.allowed === false) {
+      return rateLimitResponse(rateLimit);
+    }
+
+    // Only the signed-in user's own wallets can be queried or planned for
+    if (!(await sessionOwnsWallet(req, session, userAddress, walletProof.data))) {
+      return NextResponse.json(
+        session.method === 'siwe'
+          ? { error: 'userAddress is not the signed-in wallet', code: 'siwe_address_mismatch' }
+          : { error: 'userAddress is not a verified wallet of the signed-in user', code: 'wallet_not_verified' },
+        { status: 403 }
+      );
+    }
+
+    // Charged once ownership is proven, so nobody can use up another wallet's quota
+    const walletRateLimit = await checkRateLimits(LENDING_AGENT_RATE_LIMITS, { address: userAddress });
+    if (walletRateLimit.allowed === false) {
+      return rateLimitResponse(walletRateLimit);
+    }
+
+    if (sessionId !== undefined && (typeof sessionId !== 'string' || !SESSION_ID_PATTERN.test(sessionId))) {
+      return NextResponse.json(
+        { error: 'Invalid sessionId' },
+        { status: 400 }
+      );
+    }
+
+    const conversation = sessionId ? await getAgentConversation(userAddress, sessionId) : null;
+    const request = withConversation({ instruction, userAddress }, conversation);
+    // Losing a turn only weakens follow-ups, so storage errors never fail the reply
+    const saveTurn = async (result: AgentResponse) => {
+      if (!sessionId) return;
+      try {
+        await setAgentConversation(
+          userAddress,
+          sessionId,
+          recordConversationTurn(conversation, instruction, result)
+        );
+      } catch (error) {
+        console.error('Failed to save agent conversation:', error);
+      }
+    };
+
+    if (stream) {
+      return streamLendingAgent(request, saveTurn);
+    }
+
+    // Make the request to the configured lending agent backend
+    const response = await getLendingAgentBackend().send(request);
 
     if (!response.ok) {
       throw new Error(`External API failed with status: ${response.status}`);
     }
 
     const data = await response.json();
-    
-    return NextResponse.json(data);
+
+    const parsed = agentResponseSchema.safeParse(data);
+    if (!parsed.success) {
+      console.error('Invalid lending agent response:', parsed.error.issues);
+      return NextResponse.json(
+        { error: INVALID_RESPONSE_ERROR, issues: formatSchemaIssues(parsed.error) },
+        { status: 502 }
+      );
+    }
+
+    await saveTurn(parsed.data);
+    return NextResponse.json(parsed.data);
   } catch (error) {
     console.error('Lending agent API error:', error);
     return NextResponse.json(
@@ -39,3 +156,189 @@ export async function POST(req: NextRequest) {
     );
   }
 }
+
+/**
+ * Relays the upstream agent's progress to the client as NDJSON.
+ *
+ * The upstream is asked for `text/event-stream`; agents that only speak plain
+ * JSON are still supported and produce a single burst of events once the
+ * whole response has arrived. `onResult` receives the validated final result
+ * before the stream is closed.
+ */
+function streamLendingAgent(
+  request: LendingAgentRequest,
+  onResult: (result: AgentResponse) => Promise<void>
+): Response {
+  const encoder = new TextEncoder();
+
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      let result: AgentResponse | undefined;
+      const emit = (event: AgentStreamEvent) => {
+        if (event.type === 'result') result = event.result;
+        controller.enqueue(encoder.encode(encodeAgentStreamEvent(event)));
+      };
+
+      try {
+        const response = await getLendingAgentBackend().send({
+          ...request,
+          stream: true,
+        });
+
+        if (!response.ok) {
+          throw new Error(`External API failed with status: ${response.status}`);
+        }
+
+        const contentType = response.headers.get('content-type') || '';
+        if (contentType.includes('text/event-stream') && response.body) {
+          await relayUpstreamEvents(response.body, emit);
+        } else {
+          const data = await response.json();
+          emitCompletedTask(data, emit);
+        }
+
+        if (result) {
+          await onResult(result);
+        }
+      } catch (error) {
+        console.error('Lending agent stream error:', error);
+        emit({ type: 'error', error: 'Failed to process lending agent request' });
+      } finally {
+        controller.close();
+      }
+    },
+  });
+
+  return new Response(body, {
+    headers: {
+      'Content-Type': AGENT_STREAM_CONTENT_TYPE,
+      'Cache-Control': 'no-cache, no-transform',
+      'X-Accel-Buffering': 'no',
+    },
+  });
+}
+
+/**
+ * Translates A2A-style streaming events (`status-update`, `artifact-update`,
+ * `task`) into AgentStreamEvents. Payloads may be bare events or wrapped in a
+ * JSON-RPC envelope. If the upstream never sends the final task, one is
+ * assembled from the last status and the collected artifacts.
+ */
+async function relayUpstreamEvents(
+  upstream: ReadableStream<Uint8Array>,
+  emit: (event: AgentStreamEvent) => void
+) {
+  let contextId: string | undefined;
+  let taskId: string | undefined;
+  let lastStatus: AgentTaskStatus | undefined;
+  const artifacts: unknown[] = [];
+  const streamedArtifactIds = new Set<string>();
+
+  for await (const payload of readServerSentEvents(upstream)) {
+    const envelope = jsonRpcResultSchema.safeParse(payload);
+    const event = envelope.success ? envelope.data.result : payload;
+
+    const finalEvent = finalEventSchema.safeParse(event);
+    if (finalEvent.success) {
+      emitCompletedTask(finalEvent.data.kind === 'task' ? { success: true, data: event } : event, emit, streamedArtifactIds);
+      return;
+    }
+
+    const update = taskUpdateSchema.safeParse(event);
+    if (update.success === false) continue;
+
+    contextId = update.data.contextId ?? contextId;
+    taskId = update.data.taskId ?? taskId;
+
+    if (update.data.kind === 'status-update') {
+      lastStatus = update.data.status;
+      emitStatus(update.data.status, emit);
+    } else if (update.data.artifact) {
+      // Invalid artifacts are held back here and reported with the final result
+      artifacts.push(update.data.artifact);
+      const artifact = artifactSchema.safeParse(update.data.artifact);
+      if (artifact.success) {
+        streamedArtifactIds.add(artifact.data.artifactId);
+        emit({ type: 'artifact', artifact: artifact.data });
+      }
+    }
+  }
+
+  emitResult({
+    success: lastStatus?.state === 'completed',
+    data: {
+      id: taskId,
+      contextId,
+      kind: 'task',
+      status: lastStatus,
+      artifacts,
+    },
+  }, emit);
+}
+
+/**
+ * Emits the status text, any tool-call progress found in the status message
+ * and the final status of a non-streamed task.
+ */
+function emitStatus(status: AgentTaskStatus | undefined, emit: (event: AgentStreamEvent) => void) {
+  if (!status) return;
+
+  for (const part of status.message?.parts ?? []) {
+    if (part.kind !== 'data') continue;
+    const progress = toolProgressSchema.safeParse(part.data);
+    if (progress.success === false) continue;
+    const toolName = progress.data.toolName ?? progress.data.tool;
+    if (toolName) {
+      emit({
+        type: 'tool',
+        name: toolName,
+        status: progress.data.status,
+        text: progress.data.text,
+      });
+    }
+  }
+
+  const text = getMessageText(status.message);
+  emit({ type: 'status', state: status.state, text: text || undefined });
+}
+
+/**
+ * Emits a final task's status and artifacts, except those already streamed,
+ * followed by the result.
+ */
+function emitCompletedTask(
+  data: unknown,
+  emit: (event: AgentStreamEvent) => void,
+  streamedArtifactIds = new Set<string>()
+) {
+  const parsed = agentResponseSchema.safeParse(data);
+  if (!parsed.success) {
+    emitResult(data, emit);
+    return;
+  }
+
+  emitStatus(parsed.data.data?.status, emit);
+  for (const artifact of parsed.data.data?.artifacts ?? []) {
+    if (streamedArtifactIds.has(artifact.artifactId)) continue;
+    emit({ type: 'artifact', artifact });
+  }
+  emit({ type: 'result', result: parsed.data });
+}
+
+/**
+ * Validates the final response before relaying it, mirroring the 502 the
+ * non-streaming route returns for malformed upstream responses.
+ */
+function emitResult(data: unknown, emit: (event: AgentStreamEvent) => void) {
+  const parsed = agentResponseSchema.safeParse(data);
+  if (!parsed.success) {
+    console.error('Invalid lending agent response:', parsed.error.issues);
+    emit({
+      type: 'error',
+      error: INVALID_RESPONSE_ERROR,
+      issues: formatSchemaIssues(parsed.error),
+    });
+    return;
+  }
+  emit({ type: 'result', result: parsed.data });
+}
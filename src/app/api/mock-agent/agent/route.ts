@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { type LendingAgentRequest } from '~/lib/lendingAgent';
+import { handleMockAgentRequest } from '~/lib/mockLendingAgent';
+
+/**
+ * HTTP version of the bundled mock agent, mounted like a Vibekit deployment so
+ * it can be targeted with LENDING_AGENT_BASE_URL=http://localhost:3000/api/mock-agent.
+ * Disabled in production unless ENABLE_MOCK_AGENT=true.
+ */
+export async function POST(req: NextRequest) {
+  if (process.env.NODE_ENV === 'production' && process.env.ENABLE_MOCK_AGENT !== 'true') {
+    return NextResponse.json({ error: 'Not found' }, { status: 404 });
+  }
+
+  const body: LendingAgentRequest = await req.json();
+
+  if (!body.instruction || !body.userAddress) {
+    return NextResponse.json(
+      { error: 'Missing instruction or userAddress' },
+      { status: 400 }
+    );
+  }
+
+  const stream =
+    Boolean(body.stream) || (req.headers.get('accept') || '').includes('text/event-stream');
+
+  // The whole request is passed on, so follow-ups resolve against its `history`
+  return handleMockAgentRequest({ ...body, stream });
+}
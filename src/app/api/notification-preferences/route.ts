@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { requireSession } from '~/lib/session';
+import { getNotificationPreferences, setNotificationPreferences } from '~/lib/kv';
+import {
+  DEFAULT_NOTIFICATION_PREFERENCES,
+  NOTIFICATION_CATEGORIES,
+  type NotificationCategory,
+  type NotificationPreferences,
+  type QuietHours,
+} from '~/lib/notificationPreferences';
+
+const timeSchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/);
+
+const requestSchema = z.object({
+  fid: z.number(),
+  preferences: z.object({
+    categories: z
+      .object(Object.fromEntries(NOTIFICATION_CATEGORIES.map((category) => [category.id, z.boolean()])))
+      .transform((categories): Record<NotificationCategory, boolean> => ({
+        ...DEFAULT_NOTIFICATION_PREFERENCES.categories,
+        ...categories,
+      })),
+    quietHours: z.object({
+      enabled: z.boolean(),
+      start: timeSchema,
+      end: timeSchema,
+      timeZone: z.string().refine((timeZone) => {
+        try {
+          new Intl.DateTimeFormat('en-US', { timeZone });
+          return true;
+        } catch {
+          return false;
+        }
+      }, 'Unknown time zone'),
+    }).transform(({ enabled, start, end, timeZone }): QuietHours => ({ enabled, start, end, timeZone })),
+  }),
+});
+
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const fid = Number(searchParams.get('fid'));
+
+  if (!fid) {
+    return NextResponse.json(
+      { error: 'fid parameter is required' },
+      { status: 400 }
+    );
+  }
+
+  const auth = await requireSession(request, { fid });
+  if (auth.response) {
+    return auth.response;
+  }
+
+  try {
+    const preferences = await getNotificationPreferences(fid);
+    return NextResponse.json({ preferences });
+  } catch (error) {
+    console.error('Failed to load notification preferences:', error);
+    return NextResponse.json(
+      { error: 'Failed to load notification preferences' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  const requestJson = await request.json();
+  const requestBody = requestSchema.safeParse(requestJson);
+
+  if (requestBody.success === false) {
+    return NextResponse.json(
+      { success: false, errors: requestBody.error.errors },
+      { status: 400 }
+    );
+  }
+
+  const auth = await requireSession(request, { fid: requestBody.data.fid });
+  if (auth.response) {
+    return auth.response;
+  }
+
+  try {
+    const { fid, preferences: { categories, quietHours } } = requestBody.data;
+    const saved: NotificationPreferences = { categories, quietHours, updatedAt: Date.now() };
+    await setNotificationPreferences(fid, saved);
+    return NextResponse.json({ preferences: saved });
+  } catch (error) {
+    console.error('Failed to save notification preferences:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to save notification preferences' },
+      { status: 500 }
+    );
+  }
+}
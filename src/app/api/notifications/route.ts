@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getNotificationLog } from '~/lib/kv';
+import { MAX_NOTIFICATION_LOG_ENTRIES } from '~/lib/notificationLog';
+import { requireSession } from '~/lib/session';
+
+/**
+ * Lists the notifications recently sent to `?fid=`, newest first, with the
+ * outcome of their latest attempt. `?limit=` caps the list (default 20).
+ * Only the FID's own user can read it.
+ */
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const fid = Number(searchParams.get('fid'));
+  const limit = Math.min(Number(searchParams.get('limit')) || 20, MAX_NOTIFICATION_LOG_ENTRIES);
+
+  if (!fid) {
+    return NextResponse.json(
+      { error: 'fid parameter is required' },
+      { status: 400 }
+    );
+  }
+
+  const auth = await requireSession(request, { fid });
+  if (auth.response) {
+    return auth.response;
+  }
+
+  try {
+    const notifications = await getNotificationLog(fid);
+    return NextResponse.json({ notifications: notifications.slice(0, limit) });
+  } catch (error) {
+    console.error('Failed to load notifications:', error);
+    return NextResponse.json(
+      { error: 'Failed to load notifications' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,13 +1,24 @@
 import { notificationDetailsSchema } from "@farcaster/miniapp-sdk";
 import { NextRequest } from "next/server";
 import { z } from "zod";
+import { requireSession } from "~/lib/session";
 import { setUserNotificationDetails } from "~/lib/kv";
 import { sendMiniAppNotification } from "~/lib/notifs";
 import { sendNeynarMiniAppNotification } from "~/lib/neynar";
+import { MAX_IDEMPOTENCY_KEY_LENGTH } from "~/lib/notificationLog";
 
 const requestSchema = z.object({
   fid: z.number(),
   notificationDetails: notificationDetailsSchema,
+  target: z
+    .object({
+      path: z.string().optional(),
+      tab: z.enum(["home", "chat"]).optional(),
+      prompt: z.string().optional(),
+      tx: z.string().optional(),
+    })
+    .optional(),
+  idempotencyKey: z.string().min(1).max(MAX_IDEMPOTENCY_KEY_LENGTH).optional(),
 });
 
 export async function POST(request: NextRequest) {
@@ -25,6 +36,11 @@ export async function POST(request: NextRequest) {
     );
   }
 
+  const auth = await requireSession(request, { fid: requestBody.data.fid });
+  if (auth.response) {
+    return auth.response;
+  }
+
   // Only store notification details if not using Neynar
   if (!neynarEnabled) {
     await setUserNotificationDetails(
@@ -39,6 +55,8 @@ export async function POST(request: NextRequest) {
     fid: Number(requestBody.data.fid),
     title: "Test notification",
     body: "Sent at " + new Date().toISOString(),
+    target: requestBody.data.target,
+    idempotencyKey: requestBody.data.idempotencyKey,
   });
 
   if (sendResult.state === "error") {
@@ -51,6 +69,11 @@ export async function POST(request: NextRequest) {
       { success: false, error: "Rate limited" },
       { status: 429 }
     );
+  } else if (sendResult.state === "muted") {
+    return Response.json(
+      { success: false, error: `Muted by notification preferences (${sendResult.reason})` },
+      { status: 409 }
+    );
   }
 
   return Response.json({ success: true });
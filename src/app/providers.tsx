@@ -3,6 +3,7 @@
 import dynamic from 'next/dynamic';
 import { MiniAppProvider } from '@neynar/react';
 import { SafeFarcasterSolanaProvider } from '~/components/providers/SafeFarcasterSolanaProvider';
+import { SessionProvider } from '~/components/providers/SessionProvider';
 import { ANALYTICS_ENABLED, RETURN_URL } from '~/lib/constants';
 
 const WagmiProvider = dynamic(
@@ -26,9 +27,11 @@ export function Providers({
         backButtonEnabled={true}
         returnUrl={RETURN_URL}
       >
-        <SafeFarcasterSolanaProvider endpoint={solanaEndpoint}>
-          {children}
-        </SafeFarcasterSolanaProvider>
+        <SessionProvider>
+          <SafeFarcasterSolanaProvider endpoint={solanaEndpoint}>
+            {children}
+          </SafeFarcasterSolanaProvider>
+        </SessionProvider>
       </MiniAppProvider>
     </WagmiProvider>
   );
@@ -1,11 +1,12 @@
 "use client";
 
-import { useEffect } from "react";
+import { useCallback, useEffect, useRef, useState } from "react";
 import { useMiniApp } from "@neynar/react";
 import { Header } from "~/components/ui/Header";
 import { Footer } from "~/components/ui/Footer";
-import { HomeTab, ChatTab } from "~/components/ui/tabs";
+import { HomeTab, ChatTab, ActionsTab } from "~/components/ui/tabs";
 import { USE_WALLET } from "~/lib/constants";
+import { parseDeepLink, type DeepLink } from "~/lib/deepLinks";
 import { useNeynarUser } from "../hooks/useNeynarUser";
 
 // --- Types ---
@@ -64,20 +65,35 @@ export default function App(
   // --- Neynar user hook ---
   const { user: neynarUser } = useNeynarUser(context || undefined);
 
+  // --- State ---
+  const [deepLink, setDeepLink] = useState<DeepLink | null>(null);
+  // The initial tab and deep link are applied once, not on every context update
+  const initialTabSetRef = useRef(false);
+
   // --- Effects ---
   /**
-   * Sets the initial tab to "home" when the SDK is loaded.
+   * Sets the initial tab when the SDK is loaded.
    * 
-   * This effect ensures that users start on the home tab when they first
-   * load the mini app. It only runs when the SDK is fully loaded to
-   * prevent errors during initialization.
+   * Users start on the home tab unless the app was opened through a deep
+   * link, e.g. from a notification, whose tab and chat state are applied
+   * instead. It only runs when the SDK is fully loaded to prevent errors
+   * during initialization.
    */
   useEffect(() => {
-    if (isSDKLoaded) {
-      setInitialTab(Tab.Home);
+    if (!isSDKLoaded || initialTabSetRef.current) return;
+    initialTabSetRef.current = true;
+
+    const link = parseDeepLink(window.location.search);
+    setInitialTab(link?.tab === 'chat' ? Tab.Chat : Tab.Home);
+    if (link) {
+      setDeepLink(link);
+      // Reloading should not apply the link again
+      window.history.replaceState(null, '', window.location.pathname);
     }
   }, [isSDKLoaded, setInitialTab]);
 
+  const clearDeepLink = useCallback(() => setDeepLink(null), []);
+
   // --- Early Returns ---
   if (!isSDKLoaded) {
     return (
@@ -110,7 +126,8 @@ export default function App(
 
         {/* Tab content rendering */}
         {currentTab === Tab.Home && <HomeTab />}
-        {currentTab === Tab.Chat && <ChatTab />}
+        {currentTab === Tab.Actions && <ActionsTab />}
+        {currentTab === Tab.Chat && <ChatTab deepLink={deepLink} onDeepLinkHandled={clearDeepLink} />}
 
         {/* Footer with navigation */}
         <Footer activeTab={currentTab as Tab} setActiveTab={setActiveTab} showWallet={USE_WALLET} />
@@ -0,0 +1,113 @@
+'use client';
+
+import { createContext, useCallback, useEffect, useMemo, useState } from 'react';
+import { useAccount } from 'wagmi';
+import { useMiniApp } from '@neynar/react';
+import { useQuickAuth } from '~/hooks/useQuickAuth';
+import { useSiweSession } from '~/hooks/useSiweSession';
+import { QUICK_AUTH_PERSISTENCE_ENABLED } from '~/lib/constants';
+import type { Session } from '~/lib/session';
+
+type SessionStatus = 'loading' | 'authenticated' | 'unauthenticated';
+
+export interface SessionContextValue {
+  /** The session as the server sees it, see src/lib/session.ts */
+  session: Session | null;
+  status: SessionStatus;
+  /**
+   * `fetch` carrying the user's credentials: the QuickAuth token inside a
+   * Farcaster client, the SIWE session cookie elsewhere
+   */
+  fetch: (input: string, init?: RequestInit) => Promise<Response>;
+  /** Signs in with Farcaster, or with the connected wallet outside Farcaster */
+  signIn: () => Promise<boolean>;
+  signOut: () => Promise<void>;
+  /** Reloads the session from the server */
+  refresh: () => Promise<void>;
+}
+
+export const SessionContext = createContext<SessionContextValue | null>(null);
+
+/**
+ * Keeps the current user's session for the whole app, so components share
+ * one `/api/auth/session` lookup. Read it with `useSession`.
+ */
+export function SessionProvider({ children }: { children: React.ReactNode }) {
+  const { context, isSDKLoaded } = useMiniApp();
+  const isFarcasterUser = Boolean(context?.user);
+  const { address } = useAccount();
+  const {
+    status: quickAuthStatus,
+    signIn: signInWithFarcaster,
+    signOut: signOutOfFarcaster,
+    getToken,
+  } = useQuickAuth({ persist: QUICK_AUTH_PERSISTENCE_ENABLED });
+  const {
+    session: siweSession,
+    signIn: signInWithEthereum,
+    signOut: signOutOfEthereum,
+  } = useSiweSession();
+
+  const [session, setSession] = useState<Session | null>(null);
+  const [status, setStatus] = useState<SessionStatus>('loading');
+
+  const authFetch = useCallback(async (input: string, init: RequestInit = {}) => {
+    if (!isFarcasterUser) {
+      return fetch(input, init);
+    }
+    const token = await getToken();
+    const headers = new Headers(init.headers);
+    if (token) {
+      headers.set('Authorization', `Bearer ${token}`);
+    }
+    return fetch(input, { ...init, headers });
+  }, [isFarcasterUser, getToken]);
+
+  const refresh = useCallback(async () => {
+    try {
+      const response = await authFetch('/api/auth/session');
+      const data = await response.json();
+      setSession(data.session ?? null);
+      setStatus(data.session ? 'authenticated' : 'unauthenticated');
+    } catch (error) {
+      console.error('Failed to load session:', error);
+      setSession(null);
+      setStatus('unauthenticated');
+    }
+  }, [authFetch]);
+
+  // Reload whenever either sign-in method changes
+  useEffect(() => {
+    if (!isSDKLoaded) return;
+    refresh();
+  }, [isSDKLoaded, refresh, quickAuthStatus, siweSession]);
+
+  const signIn = useCallback(async () => {
+    if (isFarcasterUser) {
+      return signInWithFarcaster();
+    }
+    if (!address) {
+      return false;
+    }
+    try {
+      await signInWithEthereum(address);
+      return true;
+    } catch (error) {
+      console.error('Sign-In with Ethereum failed:', error);
+      return false;
+    }
+  }, [isFarcasterUser, address, signInWithFarcaster, signInWithEthereum]);
+
+  const signOut = useCallback(async () => {
+    await (isFarcasterUser ? signOutOfFarcaster() : signOutOfEthereum());
+    setSession(null);
+    setStatus('unauthenticated');
+  }, [isFarcasterUser, signOutOfFarcaster, signOutOfEthereum]);
+
+  const value = useMemo(
+    () => ({ session, status, fetch: authFetch, signIn, signOut, refresh }),
+    [session, status, authFetch, signIn, signOut, refresh]
+  );
+
+  return <SessionContext.Provider value={value}>{children}</SessionContext.Provider>;
+}
@@ -0,0 +1,39 @@
+"use client";
+
+import { type MouseEvent, type ReactNode } from "react";
+import { useMiniApp } from "@neynar/react";
+
+interface ExternalLinkProps {
+  href: string;
+  className?: string;
+  children: ReactNode;
+}
+
+/**
+ * Link to an external page (block explorers, docs, ...).
+ *
+ * Inside a Farcaster client the URL is opened with the mini app SDK's
+ * `openUrl` action, since plain navigation is not allowed to leave the mini
+ * app webview. In a regular browser it behaves like a `target="_blank"` link.
+ */
+export function ExternalLink({ href, className, children }: ExternalLinkProps) {
+  const { actions, context } = useMiniApp();
+
+  const handleClick = (event: MouseEvent<HTMLAnchorElement>) => {
+    if (!context) return;
+    event.preventDefault();
+    actions.openUrl(href);
+  };
+
+  return (
+    <a
+      href={href}
+      target="_blank"
+      rel="noopener noreferrer"
+      onClick={handleClick}
+      className={className}
+    >
+      {children}
+    </a>
+  );
+}
@@ -28,6 +28,15 @@ export const Footer: React.FC<FooterProps> = ({ activeTab, setActiveTab, showWal
         <span className="text-xl">💬</span>
         <span className="text-xs mt-1">Chat</span>
       </button>
+      <button
+        onClick={() => setActiveTab(Tab.Actions)}
+        className={`flex flex-col items-center justify-center w-full h-full ${
+          activeTab === Tab.Actions ? 'text-primary dark:text-primary-light' : 'text-gray-500 dark:text-gray-400'
+        }`}
+      >
+        <span className="text-xl">⚡</span>
+        <span className="text-xs mt-1">Actions</span>
+      </button>
     </div>
   </div>
 );
@@ -0,0 +1,145 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { useAccount } from "wagmi";
+import { useMiniApp } from "@neynar/react";
+import { Button } from "./Button";
+import { Input } from "./input";
+import { Label } from "./label";
+import { truncateAddress } from "~/lib/truncateAddress";
+import { DEFAULT_HEALTH_THRESHOLDS, MAX_HEALTH_THRESHOLDS } from "~/lib/constants";
+import { type HealthMonitorSubscription } from "~/lib/healthMonitor";
+import { useSession } from "~/hooks/useSession";
+
+function parseThresholds(value: string): number[] | null {
+  const thresholds = value.split(',').map((part) => Number(part.trim()));
+  if (thresholds.length === 0 || thresholds.length > MAX_HEALTH_THRESHOLDS) return null;
+  if (thresholds.some((threshold) => !Number.isFinite(threshold) || threshold <= 1 || threshold > 10)) return null;
+  return thresholds;
+}
+
+/**
+ * Opt-in to health factor alerts for the connected wallet's Aave position.
+ *
+ * Alerts are delivered as Farcaster notifications, so the mini app has to be
+ * added with notifications enabled.
+ */
+export function HealthMonitorSettings() {
+  const { context, added, notificationDetails, actions } = useMiniApp();
+  const { address } = useAccount();
+  const fid = context?.user?.fid;
+  const { fetch: authFetch } = useSession();
+
+  const [subscription, setSubscription] = useState<HealthMonitorSubscription | null>(null);
+  const [thresholdsInput, setThresholdsInput] = useState(DEFAULT_HEALTH_THRESHOLDS.join(', '));
+  const [isSaving, setIsSaving] = useState(false);
+  const [status, setStatus] = useState('');
+
+  useEffect(() => {
+    if (!fid) return;
+    authFetch(`/api/health-monitor?fid=${fid}`)
+      .then((response) => response.json())
+      .then((data) => {
+        setSubscription(data.subscription ?? null);
+        if (data.subscription) setThresholdsInput(data.subscription.thresholds.join(', '));
+      })
+      .catch((error) => console.error('Failed to load health monitor:', error));
+  }, [fid, authFetch]);
+
+  const save = useCallback(async () => {
+    const thresholds = parseThresholds(thresholdsInput);
+    if (!fid || !address) return;
+    if (!thresholds) {
+      setStatus(`Enter up to ${MAX_HEALTH_THRESHOLDS} health factors above 1, separated by commas.`);
+      return;
+    }
+
+    setIsSaving(true);
+    setStatus('');
+    try {
+      const response = await authFetch('/api/health-monitor', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ fid, address, thresholds }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || `HTTP error! status: ${response.status}`);
+      setSubscription(data.subscription);
+      setStatus('Alerts saved');
+    } catch (error) {
+      setStatus(`Error: ${error instanceof Error ? error.message : error}`);
+    } finally {
+      setIsSaving(false);
+    }
+  }, [fid, address, thresholdsInput, authFetch]);
+
+  const unsubscribe = useCallback(async () => {
+    if (!fid) return;
+    setIsSaving(true);
+    setStatus('');
+    try {
+      const response = await authFetch(`/api/health-monitor?fid=${fid}`, { method: 'DELETE' });
+      if (!response.ok) throw new Error(`HTTP error! status: ${response.status}`);
+      setSubscription(null);
+      setStatus('Alerts turned off');
+    } catch (error) {
+      setStatus(`Error: ${error instanceof Error ? error.message : error}`);
+    } finally {
+      setIsSaving(false);
+    }
+  }, [fid, authFetch]);
+
+  if (!fid) return null;
+
+  return (
+    <div className="text-left rounded-lg p-4 border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 space-y-3">
+      <div>
+        <h3 className="text-sm font-semibold text-gray-900 dark:text-gray-100">🩺 Health factor alerts</h3>
+        <p className="text-xs text-gray-600 dark:text-gray-400">
+          Get a notification when your Aave health factor on Arbitrum falls below a threshold.
+        </p>
+      </div>
+
+      {!address ? (
+        <p className="text-xs text-gray-500 dark:text-gray-400">Connect a wallet to monitor its position.</p>
+      ) : !added || !notificationDetails ? (
+        <Button size="sm" onClick={() => actions.addMiniApp()}>
+          Add app & enable notifications
+        </Button>
+      ) : (
+        <>
+          <div className="space-y-1">
+            <Label htmlFor="health-thresholds" className="text-xs text-gray-700 dark:text-gray-300">
+              Alert below (comma separated)
+            </Label>
+            <Input
+              id="health-thresholds"
+              value={thresholdsInput}
+              onChange={(e) => setThresholdsInput(e.target.value)}
+              placeholder={DEFAULT_HEALTH_THRESHOLDS.join(', ')}
+            />
+          </div>
+          {subscription && (
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              Monitoring {truncateAddress(subscription.address)}
+              {subscription.lastHealthFactor !== undefined &&
+                ` · last health factor ${subscription.lastHealthFactor === null ? '∞' : subscription.lastHealthFactor.toFixed(2)}`}
+            </p>
+          )}
+          <div className="flex gap-2">
+            <Button size="sm" onClick={save} isLoading={isSaving} disabled={isSaving}>
+              {subscription ? 'Update alerts' : 'Turn on alerts'}
+            </Button>
+            {subscription && (
+              <Button size="sm" variant="outline" onClick={unsubscribe} disabled={isSaving}>
+                Turn off
+              </Button>
+            )}
+          </div>
+        </>
+      )}
+
+      {status && <p className="text-xs text-gray-600 dark:text-gray-400">{status}</p>}
+    </div>
+  );
+}
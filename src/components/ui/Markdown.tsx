@@ -0,0 +1,246 @@
+"use client";
+
+import { type ReactNode } from "react";
+import { ExternalLink } from "./ExternalLink";
+
+interface MarkdownProps {
+  content: string;
+  className?: string;
+}
+
+/**
+ * Inline syntax, in priority order: code spans, bold, links, italics and bare URLs
+ */
+const INLINE_PATTERN =
+  /(`[^`]+`)|(\*\*[^*]+\*\*)|(\[[^\]]+\]\([^)\s]+\))|(\*[^*\s][^*]*\*)|(https?:\/\/[^\s<>()]*[^\s<>().,;:!?'"])/g;
+
+const LIST_ITEM_PATTERN = /^\s*[-*•]\s+(.*)$/;
+const ORDERED_ITEM_PATTERN = /^\s*\d+[.)]\s+(.*)$/;
+const HEADING_PATTERN = /^(#{1,4})\s+(.*)$/;
+const TABLE_SEPARATOR_PATTERN = /^\s*\|?\s*:?-{2,}:?\s*(\|\s*:?-{2,}:?\s*)*\|?\s*$/;
+
+/**
+ * Only web links are rendered as anchors, so `javascript:` and other schemes
+ * from agent output can never become clickable.
+ */
+function isSafeUrl(url: string): boolean {
+  try {
+    const { protocol } = new URL(url);
+    return protocol === 'https:' || protocol === 'http:';
+  } catch {
+    return false;
+  }
+}
+
+function renderLink(href: string, label: ReactNode, key: string) {
+  if (!isSafeUrl(href)) {
+    return <span key={key}>{label}</span>;
+  }
+  return (
+    <ExternalLink key={key} href={href} className="underline underline-offset-2 break-all hover:opacity-80">
+      {label}
+    </ExternalLink>
+  );
+}
+
+function renderInline(text: string, keyPrefix = ''): ReactNode[] {
+  const nodes: ReactNode[] = [];
+  let lastIndex = 0;
+  let match: RegExpExecArray | null;
+  const pattern = new RegExp(INLINE_PATTERN.source, 'g');
+
+  while ((match = pattern.exec(text)) !== null) {
+    if (match.index > lastIndex) {
+      nodes.push(text.slice(lastIndex, match.index));
+    }
+    const [token, code, bold, link, italic, url] = match;
+    const key = `${keyPrefix}${match.index}`;
+
+    if (code) {
+      nodes.push(
+        <code key={key} className="px-1 py-0.5 rounded bg-black/10 dark:bg-white/10 font-mono text-[0.85em]">
+          {code.slice(1, -1)}
+        </code>
+      );
+    } else if (bold) {
+      nodes.push(<strong key={key}>{renderInline(bold.slice(2, -2), `${key}-`)}</strong>);
+    } else if (link) {
+      const [, label, href] = link.match(/^\[([^\]]+)\]\(([^)\s]+)\)$/) ?? [];
+      nodes.push(renderLink(href, renderInline(label, `${key}-`), key));
+    } else if (italic) {
+      nodes.push(<em key={key}>{renderInline(italic.slice(1, -1), `${key}-`)}</em>);
+    } else if (url) {
+      nodes.push(renderLink(url, url, key));
+    } else {
+      nodes.push(token);
+    }
+    lastIndex = match.index + token.length;
+  }
+
+  if (lastIndex < text.length) {
+    nodes.push(text.slice(lastIndex));
+  }
+  return nodes;
+}
+
+function splitTableRow(line: string): string[] {
+  return line.trim().replace(/^\|/, '').replace(/\|$/, '').split('|').map((cell) => cell.trim());
+}
+
+/**
+ * Parses the supported block syntax (paragraphs, headings, lists, fenced code
+ * and tables) line by line into React elements.
+ */
+function renderBlocks(content: string): ReactNode[] {
+  const lines = content.replace(/\r\n/g, '\n').split('\n');
+  const blocks: ReactNode[] = [];
+  let i = 0;
+
+  const collect = (pattern: RegExp) => {
+    const items: string[] = [];
+    while (i < lines.length) {
+      const item = lines[i].match(pattern);
+      if (!item) break;
+      items.push(item[1]);
+      i++;
+    }
+    return items;
+  };
+
+  while (i < lines.length) {
+    const line = lines[i];
+    const key = `block-${i}`;
+
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+
+    if (line.trim().startsWith('```')) {
+      const code: string[] = [];
+      i++;
+      while (i < lines.length && !lines[i].trim().startsWith('```')) {
+        code.push(lines[i]);
+        i++;
+      }
+      i++;
+      blocks.push(
+        <pre key={key} className="p-2 overflow-x-auto rounded bg-black/10 dark:bg-white/10 font-mono text-xs">
+          <code>{code.join('\n')}</code>
+        </pre>
+      );
+      continue;
+    }
+
+    const heading = line.match(HEADING_PATTERN);
+    if (heading) {
+      blocks.push(
+        <p key={key} className={heading[1].length === 1 ? 'text-base font-bold' : 'font-bold'}>
+          {renderInline(heading[2], `${key}-`)}
+        </p>
+      );
+      i++;
+      continue;
+    }
+
+    if (line.includes('|') && i + 1 < lines.length && TABLE_SEPARATOR_PATTERN.test(lines[i + 1])) {
+      const header = splitTableRow(line);
+      i += 2;
+      const rows: string[][] = [];
+      while (i < lines.length && lines[i].includes('|') && lines[i].trim()) {
+        rows.push(splitTableRow(lines[i]));
+        i++;
+      }
+      blocks.push(
+        <div key={key} className="overflow-x-auto">
+          <table className="text-xs border-collapse">
+            <thead>
+              <tr>
+                {header.map((cell, index) => (
+                  <th key={index} className="px-2 py-1 text-left font-semibold border-b border-gray-300 dark:border-gray-600">
+                    {renderInline(cell, `${key}-h${index}-`)}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((row, rowIndex) => (
+                <tr key={rowIndex}>
+                  {row.map((cell, index) => (
+                    <td key={index} className="px-2 py-1 align-top">
+                      {renderInline(cell, `${key}-${rowIndex}-${index}-`)}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      );
+      continue;
+    }
+
+    if (LIST_ITEM_PATTERN.test(line)) {
+      const items = collect(LIST_ITEM_PATTERN);
+      blocks.push(
+        <ul key={key} className="list-disc pl-5 space-y-0.5">
+          {items.map((item, index) => <li key={index}>{renderInline(item, `${key}-${index}-`)}</li>)}
+        </ul>
+      );
+      continue;
+    }
+
+    if (ORDERED_ITEM_PATTERN.test(line)) {
+      const items = collect(ORDERED_ITEM_PATTERN);
+      blocks.push(
+        <ol key={key} className="list-decimal pl-5 space-y-0.5">
+          {items.map((item, index) => <li key={index}>{renderInline(item, `${key}-${index}-`)}</li>)}
+        </ol>
+      );
+      continue;
+    }
+
+    // Paragraph: consecutive plain lines, keeping the line breaks
+    const paragraph: string[] = [];
+    while (
+      i < lines.length &&
+      lines[i].trim() &&
+      !lines[i].trim().startsWith('```') &&
+      !HEADING_PATTERN.test(lines[i]) &&
+      !LIST_ITEM_PATTERN.test(lines[i]) &&
+      !ORDERED_ITEM_PATTERN.test(lines[i]) &&
+      !(lines[i].includes('|') && i + 1 < lines.length && TABLE_SEPARATOR_PATTERN.test(lines[i + 1]))
+    ) {
+      paragraph.push(lines[i]);
+      i++;
+    }
+    blocks.push(
+      <p key={key}>
+        {paragraph.map((text, index) => (
+          <span key={index}>
+            {index > 0 && <br />}
+            {renderInline(text, `${key}-${index}-`)}
+          </span>
+        ))}
+      </p>
+    );
+  }
+
+  return blocks;
+}
+
+/**
+ * Renders a safe subset of Markdown used in agent replies: bold and italics,
+ * code spans and blocks, bullet and numbered lists, tables, headings and links.
+ *
+ * Output is built from React elements only (no `dangerouslySetInnerHTML`), so
+ * any HTML in the source is shown as text rather than injected.
+ *
+ * @example
+ * ```tsx
+ * <Markdown content="**Health Factor:** 1.8" />
+ * ```
+ */
+export function Markdown({ content, className = "" }: MarkdownProps) {
+  return <div className={`space-y-2 ${className}`}>{renderBlocks(content)}</div>;
+}
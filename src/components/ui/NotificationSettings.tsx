@@ -0,0 +1,143 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { useMiniApp } from "@neynar/react";
+import { useSession } from "~/hooks/useSession";
+import { Button } from "./Button";
+import {
+  DEFAULT_NOTIFICATION_PREFERENCES,
+  NOTIFICATION_CATEGORIES,
+  type NotificationCategory,
+  type NotificationPreferences,
+  type QuietHours,
+} from "~/lib/notificationPreferences";
+
+/**
+ * Per-category opt-outs and quiet hours for the current user's
+ * notifications. Changes are saved with the "Save preferences" button.
+ */
+export function NotificationSettings() {
+  const { context } = useMiniApp();
+  const fid = context?.user?.fid;
+  const { fetch: authFetch } = useSession();
+
+  const [preferences, setPreferences] = useState<NotificationPreferences>(DEFAULT_NOTIFICATION_PREFERENCES);
+  const [isSaving, setIsSaving] = useState(false);
+  const [status, setStatus] = useState('');
+
+  useEffect(() => {
+    if (!fid) return;
+    authFetch(`/api/notification-preferences?fid=${fid}`)
+      .then((response) => response.json())
+      .then((data) => {
+        if (!data.preferences) return;
+        // First-time users get their device's time zone for quiet hours
+        setPreferences(
+          data.preferences.updatedAt
+            ? data.preferences
+            : {
+                ...data.preferences,
+                quietHours: {
+                  ...data.preferences.quietHours,
+                  timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+                },
+              }
+        );
+      })
+      .catch((error) => console.error('Failed to load notification preferences:', error));
+  }, [fid, authFetch]);
+
+  const toggleCategory = (category: NotificationCategory) => {
+    setPreferences((prev) => ({
+      ...prev,
+      categories: { ...prev.categories, [category]: !prev.categories[category] },
+    }));
+  };
+
+  const updateQuietHours = (update: Partial<QuietHours>) => {
+    setPreferences((prev) => ({ ...prev, quietHours: { ...prev.quietHours, ...update } }));
+  };
+
+  const save = useCallback(async () => {
+    if (!fid) return;
+    setIsSaving(true);
+    setStatus('');
+    try {
+      const response = await authFetch('/api/notification-preferences', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ fid, preferences }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || `HTTP error! status: ${response.status}`);
+      setPreferences(data.preferences);
+      setStatus('Preferences saved');
+    } catch (error) {
+      setStatus(`Error: ${error instanceof Error ? error.message : error}`);
+    } finally {
+      setIsSaving(false);
+    }
+  }, [fid, preferences, authFetch]);
+
+  if (!fid) return null;
+
+  return (
+    <div className="rounded-lg p-4 border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 space-y-3">
+      <h3 className="text-sm font-semibold text-gray-900 dark:text-gray-100">🔔 Notification preferences</h3>
+
+      <div className="space-y-2">
+        {NOTIFICATION_CATEGORIES.map((category) => (
+          <label key={category.id} className="flex items-start gap-2 text-sm">
+            <input
+              type="checkbox"
+              checked={preferences.categories[category.id]}
+              onChange={() => toggleCategory(category.id)}
+              className="mt-1"
+            />
+            <span>
+              <span className="font-medium text-gray-900 dark:text-gray-100">{category.label}</span>
+              <span className="block text-xs text-gray-500 dark:text-gray-400">
+                {category.description}
+                {category.urgent && ' · sent during quiet hours'}
+              </span>
+            </span>
+          </label>
+        ))}
+      </div>
+
+      <div className="space-y-2 pt-2 border-t border-gray-100 dark:border-gray-700">
+        <label className="flex items-center gap-2 text-sm font-medium text-gray-900 dark:text-gray-100">
+          <input
+            type="checkbox"
+            checked={preferences.quietHours.enabled}
+            onChange={(e) => updateQuietHours({ enabled: e.target.checked })}
+          />
+          Quiet hours
+        </label>
+        {preferences.quietHours.enabled && (
+          <div className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+            <input
+              type="time"
+              value={preferences.quietHours.start}
+              onChange={(e) => updateQuietHours({ start: e.target.value })}
+              className="px-2 py-1 rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-900"
+            />
+            <span>to</span>
+            <input
+              type="time"
+              value={preferences.quietHours.end}
+              onChange={(e) => updateQuietHours({ end: e.target.value })}
+              className="px-2 py-1 rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-900"
+            />
+            <span className="text-xs text-gray-500 dark:text-gray-400 truncate">{preferences.quietHours.timeZone}</span>
+          </div>
+        )}
+      </div>
+
+      <Button onClick={save} isLoading={isSaving} disabled={isSaving} className="w-full">
+        Save preferences
+      </Button>
+      {status && <p className="text-xs text-gray-600 dark:text-gray-400">{status}</p>}
+    </div>
+  );
+}
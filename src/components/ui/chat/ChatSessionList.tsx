@@ -0,0 +1,167 @@
+"use client";
+
+import { useState } from "react";
+import { type ChatSession } from "~/lib/chatSessions";
+
+interface ChatSessionListProps {
+  sessions: ChatSession[];
+  activeSessionId: string;
+  /** Disables switching while a request is in flight */
+  disabled?: boolean;
+  onSelect: (id: string) => void;
+  onCreate: () => void;
+  onRename: (id: string, title: string) => void;
+  onDelete: (id: string) => void;
+}
+
+function formatUpdatedAt(timestamp: number) {
+  const date = new Date(timestamp);
+  const isToday = date.toDateString() === new Date().toDateString();
+  return isToday
+    ? date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+    : date.toLocaleDateString([], { month: 'short', day: 'numeric' });
+}
+
+function SessionRow({
+  session,
+  isActive,
+  disabled,
+  onSelect,
+  onRename,
+  onDelete,
+}: {
+  session: ChatSession;
+  isActive: boolean;
+  disabled?: boolean;
+  onSelect: () => void;
+  onRename: (title: string) => void;
+  onDelete: () => void;
+}) {
+  const [isEditing, setIsEditing] = useState(false);
+  const [title, setTitle] = useState(session.title);
+
+  const submitRename = () => {
+    onRename(title);
+    setIsEditing(false);
+  };
+
+  if (isEditing) {
+    return (
+      <form
+        onSubmit={(e) => {
+          e.preventDefault();
+          submitRename();
+        }}
+        className="flex items-center gap-2 px-3 py-2"
+      >
+        <input
+          autoFocus
+          value={title}
+          onChange={(e) => setTitle(e.target.value)}
+          onBlur={submitRename}
+          maxLength={80}
+          className="flex-1 px-2 py-1 text-sm rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100"
+        />
+      </form>
+    );
+  }
+
+  return (
+    <div className={`flex items-center gap-2 px-3 py-2 ${isActive ? 'bg-blue-50 dark:bg-blue-900/20' : ''}`}>
+      <button
+        type="button"
+        onClick={onSelect}
+        disabled={disabled}
+        className="flex-1 min-w-0 text-left disabled:cursor-not-allowed"
+      >
+        <div className="text-sm font-medium text-gray-900 dark:text-gray-100 truncate">{session.title}</div>
+        <div className="text-xs text-gray-500 dark:text-gray-400">
+          {session.messages.length} message{session.messages.length === 1 ? '' : 's'} · {formatUpdatedAt(session.updatedAt)}
+          {session.pendingTransaction && ' · pending transaction'}
+        </div>
+      </button>
+      <button
+        type="button"
+        onClick={() => {
+          setTitle(session.title);
+          setIsEditing(true);
+        }}
+        className="text-xs text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200"
+      >
+        Rename
+      </button>
+      <button
+        type="button"
+        onClick={() => {
+          if (window.confirm(`Delete "${session.title}"?`)) onDelete();
+        }}
+        disabled={disabled && isActive}
+        className="text-xs text-red-600 hover:text-red-700 dark:text-red-400 disabled:opacity-50"
+      >
+        Delete
+      </button>
+    </div>
+  );
+}
+
+/**
+ * Header bar for the chat showing the current conversation, with a
+ * collapsible list to start, resume, rename or delete conversations.
+ */
+export function ChatSessionList({
+  sessions,
+  activeSessionId,
+  disabled,
+  onSelect,
+  onCreate,
+  onRename,
+  onDelete,
+}: ChatSessionListProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const activeSession = sessions.find((session) => session.id === activeSessionId);
+
+  return (
+    <div className="relative z-20 mx-4 mt-2">
+      <div className="flex items-center justify-between gap-2">
+        <button
+          type="button"
+          onClick={() => setIsOpen((prev) => !prev)}
+          className="flex items-center gap-1 min-w-0 text-sm font-medium text-gray-700 dark:text-gray-200"
+        >
+          <span className="truncate">💬 {activeSession?.title}</span>
+          <span className="text-xs opacity-60">{isOpen ? '▲' : '▼'}</span>
+        </button>
+        <button
+          type="button"
+          onClick={() => {
+            onCreate();
+            setIsOpen(false);
+          }}
+          disabled={disabled}
+          className="shrink-0 px-2 py-1 text-xs font-medium rounded-md bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-200 hover:bg-gray-200 dark:hover:bg-gray-600 disabled:opacity-50"
+        >
+          + New chat
+        </button>
+      </div>
+
+      {isOpen && (
+        <div className="absolute left-0 right-0 mt-2 max-h-72 overflow-y-auto rounded-xl border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-900 shadow-lg divide-y divide-gray-100 dark:divide-gray-800">
+          {sessions.map((session) => (
+            <SessionRow
+              key={session.id}
+              session={session}
+              isActive={session.id === activeSessionId}
+              disabled={disabled}
+              onSelect={() => {
+                onSelect(session.id);
+                setIsOpen(false);
+              }}
+              onRename={(title) => onRename(session.id, title)}
+              onDelete={() => onDelete(session.id)}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
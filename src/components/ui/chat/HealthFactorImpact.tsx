@@ -0,0 +1,158 @@
+"use client";
+
+import { type ReactNode } from "react";
+import { type HealthFactorImpactState } from "~/hooks/useHealthFactorImpact";
+import { type HealthFactorRisk } from "~/lib/healthFactor";
+
+interface HealthFactorImpactProps {
+  state: HealthFactorImpactState;
+  /** Risk of the plan, `warning` for borrows and withdrawals that could not be projected */
+  risk: HealthFactorRisk;
+  /** The user accepted a projected health factor below the threshold */
+  acknowledged: boolean;
+  onAcknowledge: (acknowledged: boolean) => void;
+  onRefresh: () => void;
+}
+
+const RISK_STYLES: Record<HealthFactorRisk, string> = {
+  safe: 'border-gray-200 dark:border-gray-700 bg-white/50 dark:bg-gray-800/50',
+  warning: 'border-amber-300 dark:border-amber-700 bg-amber-50 dark:bg-amber-900/30',
+  blocked: 'border-red-300 dark:border-red-700 bg-red-50 dark:bg-red-900/20',
+};
+
+function formatHealthFactor(healthFactor: number | null) {
+  return healthFactor === null ? '∞' : healthFactor.toFixed(2);
+}
+
+function formatPercent(fraction: number) {
+  return `${(fraction * 100).toFixed(1)}%`;
+}
+
+function healthFactorColor(healthFactor: number | null, minHealthFactor: number) {
+  if (healthFactor === null || healthFactor >= minHealthFactor) return 'text-green-700 dark:text-green-400';
+  return healthFactor < 1 ? 'text-red-700 dark:text-red-400' : 'text-amber-700 dark:text-amber-400';
+}
+
+interface RiskAcknowledgementProps {
+  acknowledged: boolean;
+  onAcknowledge: (acknowledged: boolean) => void;
+  children: ReactNode;
+}
+
+function RiskAcknowledgement({ acknowledged, onAcknowledge, children }: RiskAcknowledgementProps) {
+  return (
+    <label className="flex items-start gap-2 text-xs font-medium text-amber-800 dark:text-amber-200">
+      <input
+        type="checkbox"
+        checked={acknowledged}
+        onChange={(e) => onAcknowledge(e.target.checked)}
+        className="mt-0.5"
+      />
+      <span>{children}</span>
+    </label>
+  );
+}
+
+/**
+ * Aave position before and after the pending txPlan: health factor, LTV and
+ * how far collateral can fall before liquidation. Plans that would push the
+ * health factor below the configured threshold need to be acknowledged, as
+ * do borrows and withdrawals whose impact could not be projected.
+ */
+export function HealthFactorImpact({ state, risk, acknowledged, onAcknowledge, onRefresh }: HealthFactorImpactProps) {
+  if (state.status === 'idle') return null;
+
+  if (state.status === 'loading') {
+    return (
+      <div className="flex items-center gap-2 px-4 py-3 bg-white/50 dark:bg-gray-800/50 rounded-lg text-sm text-gray-600 dark:text-gray-300">
+        <div className="w-4 h-4 border-2 border-blue-500 border-t-transparent rounded-full animate-spin"></div>
+        Checking your Aave position...
+      </div>
+    );
+  }
+
+  if (state.status === 'error') {
+    return (
+      <div className="px-4 py-3 rounded-lg border border-gray-300 dark:border-gray-600 bg-white/50 dark:bg-gray-800/50 text-sm space-y-2">
+        <p className="text-gray-800 dark:text-gray-200">⚠️ Could not project your health factor: {state.error}</p>
+        <button type="button" onClick={onRefresh} className="text-xs font-medium text-blue-600 dark:text-blue-400 hover:underline">
+          Retry
+        </button>
+        {risk === 'warning' && (
+          <RiskAcknowledgement acknowledged={acknowledged} onAcknowledge={onAcknowledge}>
+            This transaction could lower your health factor and it could not be checked. I understand it could get my collateral liquidated.
+          </RiskAcknowledgement>
+        )}
+      </div>
+    );
+  }
+
+  const { projection } = state;
+  if (!projection) {
+    if (risk !== 'warning') return null;
+    return (
+      <div className={`px-4 py-3 rounded-lg border text-sm space-y-2 ${RISK_STYLES.warning}`}>
+        <p className="text-gray-800 dark:text-gray-200">
+          ⚠️ The impact of this transaction on your health factor cannot be projected, e.g. when it borrows or withdraws the maximum amount.
+        </p>
+        <RiskAcknowledgement acknowledged={acknowledged} onAcknowledge={onAcknowledge}>
+          I understand it could get my collateral liquidated.
+        </RiskAcknowledgement>
+      </div>
+    );
+  }
+
+  const { current, projected, minHealthFactor } = projection;
+
+  return (
+    <div className={`px-4 py-3 rounded-lg border text-sm space-y-2 ${RISK_STYLES[risk]}`}>
+      <div className="flex items-center justify-between">
+        <span className="font-semibold text-gray-900 dark:text-gray-100">Position impact</span>
+        <button type="button" onClick={onRefresh} className="text-xs text-blue-600 dark:text-blue-400 hover:underline">
+          Refresh
+        </button>
+      </div>
+
+      <div className="text-xs text-gray-700 dark:text-gray-300 space-y-0.5">
+        <div className="flex justify-between">
+          <span>Health factor</span>
+          <span className="font-mono">
+            <span className={healthFactorColor(current.healthFactor, minHealthFactor)}>{formatHealthFactor(current.healthFactor)}</span>
+            {' → '}
+            <span className={`font-semibold ${healthFactorColor(projected.healthFactor, minHealthFactor)}`}>{formatHealthFactor(projected.healthFactor)}</span>
+          </span>
+        </div>
+        <div className="flex justify-between">
+          <span>Loan to value</span>
+          <span className="font-mono">
+            {formatPercent(current.loanToValue)} → {formatPercent(projected.loanToValue)}
+            <span className="opacity-70"> (max {formatPercent(projected.maxLoanToValue)})</span>
+          </span>
+        </div>
+        {projection.liquidationPrice !== undefined && (
+          <div className="flex justify-between">
+            <span>{projection.token} liquidation price</span>
+            <span className="font-mono">${projection.liquidationPrice.toLocaleString(undefined, { maximumFractionDigits: 2 })}</span>
+          </div>
+        )}
+        {projection.liquidationDrop !== null && (
+          <div className="flex justify-between">
+            <span>Collateral drop to liquidation</span>
+            <span className="font-mono">{formatPercent(projection.liquidationDrop)}</span>
+          </div>
+        )}
+      </div>
+
+      {risk === 'blocked' && (
+        <p className="text-xs font-medium text-red-800 dark:text-red-200">
+          🚫 This transaction would make your position liquidatable, so signing is disabled.
+        </p>
+      )}
+      {risk === 'warning' && (
+        <RiskAcknowledgement acknowledged={acknowledged} onAcknowledge={onAcknowledge}>
+          Your health factor would drop below {minHealthFactor}. A small price move could get your collateral liquidated. I understand the risk.
+        </RiskAcknowledgement>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,179 @@
+"use client";
+
+import { useState } from "react";
+import { type AavePosition, type AaveUserReserve } from "~/lib/agentSchema";
+
+interface PositionsCardProps {
+  positions: AavePosition[];
+}
+
+function formatUsdValue(value: string) {
+  const num = parseFloat(value);
+  if (!num) return "$0.00";
+  if (num < 0.01) return `$${num.toFixed(6)}`;
+  return `$${num.toFixed(2)}`;
+}
+
+function formatPercentage(value: string) {
+  const num = parseFloat(value) * 100;
+  return `${num.toFixed(2)}%`;
+}
+
+function formatTokenBalance(value: string) {
+  const num = parseFloat(value);
+  if (!num) return "0";
+  if (num < 0.0001) return num.toExponential(2);
+  return num.toLocaleString(undefined, { maximumFractionDigits: 6 });
+}
+
+/**
+ * Aave reports the max uint256 (or a negative value) as the health factor of
+ * accounts without debt
+ */
+function parseHealthFactor(value: string): number {
+  const num = parseFloat(value);
+  return num < 0 || num > 1e10 ? Infinity : num;
+}
+
+function getHealthStatus(healthFactor: number) {
+  if (healthFactor > 2) {
+    return { label: '✅ Your position is healthy!', className: 'text-green-700 dark:text-green-400' };
+  }
+  if (healthFactor > 1.2) {
+    return { label: '⚠️ Monitor your position closely', className: 'text-amber-700 dark:text-amber-400' };
+  }
+  return { label: '🚨 Risk of liquidation!', className: 'text-red-700 dark:text-red-400' };
+}
+
+function hasBalance(reserve: AaveUserReserve) {
+  return parseFloat(reserve.underlyingBalance) > 0 || parseFloat(reserve.totalBorrows) > 0;
+}
+
+function Metric({ label, value }: { label: string; value: string }) {
+  return (
+    <div className="flex items-center justify-between">
+      <span className="text-xs text-gray-600 dark:text-gray-400">{label}</span>
+      <span className="text-xs font-semibold text-gray-900 dark:text-gray-100">{value}</span>
+    </div>
+  );
+}
+
+/**
+ * One reserve row: supplied and borrowed balances with APYs and collateral flag
+ */
+function ReserveRow({ reserve }: { reserve: AaveUserReserve }) {
+  const supplied = parseFloat(reserve.underlyingBalance) > 0;
+  const borrowed = parseFloat(reserve.totalBorrows) > 0;
+
+  return (
+    <div className="py-2 space-y-1">
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-semibold text-gray-900 dark:text-gray-100">
+          {reserve.token.symbol}
+          <span className="ml-1 text-xs font-normal text-gray-500 dark:text-gray-400">{reserve.token.name}</span>
+        </span>
+        {reserve.usageAsCollateralEnabled !== undefined && supplied && (
+          <span className={`text-[10px] font-medium px-1.5 py-0.5 rounded ${
+            reserve.usageAsCollateralEnabled
+              ? 'bg-green-100 dark:bg-green-900/40 text-green-700 dark:text-green-300'
+              : 'bg-gray-200 dark:bg-gray-700 text-gray-600 dark:text-gray-300'
+          }`}>
+            {reserve.usageAsCollateralEnabled ? 'Collateral' : 'Not collateral'}
+          </span>
+        )}
+      </div>
+      <div className="grid grid-cols-2 gap-2 text-xs text-gray-600 dark:text-gray-400">
+        <div>
+          <div>Supplied</div>
+          <div className="font-medium text-gray-900 dark:text-gray-100">
+            {formatTokenBalance(reserve.underlyingBalance)} ({formatUsdValue(reserve.underlyingBalanceUsd)})
+          </div>
+          {reserve.supplyApy !== undefined && <div>APY {formatPercentage(reserve.supplyApy)}</div>}
+        </div>
+        <div>
+          <div>Borrowed</div>
+          <div className={`font-medium ${borrowed ? 'text-red-700 dark:text-red-400' : 'text-gray-900 dark:text-gray-100'}`}>
+            {formatTokenBalance(reserve.totalBorrows)} ({formatUsdValue(reserve.totalBorrowsUsd)})
+          </div>
+          {reserve.variableBorrowApy !== undefined && <div>APY {formatPercentage(reserve.variableBorrowApy)}</div>}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function PositionSection({ position, title }: { position: AavePosition; title?: string }) {
+  const [showEmpty, setShowEmpty] = useState(false);
+  const healthFactor = parseHealthFactor(position.healthFactor);
+  const status = getHealthStatus(healthFactor);
+  const activeReserves = position.userReserves.filter(hasBalance);
+  const emptyReserves = position.userReserves.filter((reserve) => !hasBalance(reserve));
+
+  return (
+    <div className="space-y-3">
+      {title && <h4 className="text-sm font-semibold text-gray-900 dark:text-gray-100">{title}</h4>}
+
+      {/* Aggregate metrics */}
+      <div className="grid grid-cols-2 gap-x-4 gap-y-1 p-3 bg-white/60 dark:bg-gray-900/40 rounded-lg">
+        <Metric label="Total Collateral" value={formatUsdValue(position.totalCollateralUsd)} />
+        <Metric label="Total Borrowed" value={formatUsdValue(position.totalBorrowsUsd)} />
+        <Metric label="Net Worth" value={formatUsdValue(position.netWorthUsd)} />
+        <Metric label="Available to Borrow" value={formatUsdValue(position.availableBorrowsUsd)} />
+        <Metric label="Current LTV" value={formatPercentage(position.currentLoanToValue)} />
+        <Metric label="Liquidation Threshold" value={formatPercentage(position.currentLiquidationThreshold)} />
+      </div>
+
+      <div className="flex items-center justify-between">
+        <span className="text-xs text-gray-600 dark:text-gray-400">Health Factor</span>
+        <span className={`text-sm font-bold ${status.className}`}>
+          {healthFactor === Infinity ? '∞' : healthFactor.toFixed(2)}
+        </span>
+      </div>
+      <p className={`text-xs font-medium ${status.className}`}>{status.label}</p>
+
+      {/* Reserves */}
+      <div className="divide-y divide-gray-200 dark:divide-gray-700">
+        {activeReserves.length === 0 && (
+          <p className="py-2 text-xs text-gray-500 dark:text-gray-400">No supplied or borrowed assets.</p>
+        )}
+        {activeReserves.map((reserve) => (
+          <ReserveRow key={reserve.token.tokenUid.address} reserve={reserve} />
+        ))}
+        {showEmpty && emptyReserves.map((reserve) => (
+          <ReserveRow key={reserve.token.tokenUid.address} reserve={reserve} />
+        ))}
+      </div>
+      {emptyReserves.length > 0 && (
+        <button
+          type="button"
+          onClick={() => setShowEmpty((prev) => !prev)}
+          className="text-xs font-medium text-blue-600 dark:text-blue-400 hover:underline"
+        >
+          {showEmpty ? 'Hide empty reserves' : `Show ${emptyReserves.length} empty reserves`}
+        </button>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Summary of the user's Aave positions: aggregate risk metrics and every
+ * reserve the user supplies or borrows, for each returned account/market.
+ */
+export function PositionsCard({ positions }: PositionsCardProps) {
+  return (
+    <div className="space-y-4">
+      <h3 className="text-sm font-semibold text-gray-900 dark:text-gray-100">💰 Your AAVE Position Summary</h3>
+      {positions.length === 0 && (
+        <p className="text-xs text-gray-500 dark:text-gray-400">No lending positions found.</p>
+      )}
+      {positions.map((position, index) => (
+        <PositionSection
+          key={index}
+          position={position}
+          title={positions.length > 1 ? `Position ${index + 1}` : undefined}
+        />
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,102 @@
+"use client";
+
+import { type TxPlanSimulationState } from "~/hooks/useTxPlanSimulation";
+import { type TxStep } from "~/hooks/useTxPlanExecutor";
+
+interface SimulationSummaryProps {
+  state: TxPlanSimulationState;
+  steps: TxStep[];
+  onRetry: () => void;
+  /** Offered when the simulation could not run, to sign without it */
+  onSkip?: () => void;
+}
+
+function formatDiff(formattedDiff: string) {
+  const num = parseFloat(formattedDiff);
+  const abs = Math.abs(num).toLocaleString(undefined, { maximumFractionDigits: 6 });
+  return num > 0 ? `+${abs}` : `-${abs}`;
+}
+
+/**
+ * Outcome of simulating the pending txPlan: revert reasons per step, gas
+ * estimate and the expected balance changes of the user's wallet.
+ */
+export function SimulationSummary({ state, steps, onRetry, onSkip }: SimulationSummaryProps) {
+  if (state.status === 'idle') return null;
+
+  if (state.status === 'loading') {
+    return (
+      <div className="flex items-center gap-2 px-4 py-3 bg-white/50 dark:bg-gray-800/50 rounded-lg text-sm text-gray-600 dark:text-gray-300">
+        <div className="w-4 h-4 border-2 border-blue-500 border-t-transparent rounded-full animate-spin"></div>
+        Simulating transactions...
+      </div>
+    );
+  }
+
+  if (state.status === 'error') {
+    return (
+      <div className="px-4 py-3 rounded-lg border border-gray-300 dark:border-gray-600 bg-white/50 dark:bg-gray-800/50 text-sm space-y-2">
+        <p className="text-gray-800 dark:text-gray-200">⚠️ Could not simulate this plan: {state.error}</p>
+        <div className="flex gap-3 text-xs font-medium">
+          <button type="button" onClick={onRetry} className="text-blue-600 dark:text-blue-400 hover:underline">
+            Retry simulation
+          </button>
+          {onSkip && (
+            <button type="button" onClick={onSkip} className="text-gray-600 dark:text-gray-400 hover:underline">
+              Sign without simulation
+            </button>
+          )}
+        </div>
+      </div>
+    );
+  }
+
+  const { simulation } = state;
+  const failedSteps = simulation.steps
+    .map((step, index) => ({ ...step, label: steps[index]?.label ?? `Step ${index + 1}`, index }))
+    .filter((step) => step.status !== 'success');
+
+  return (
+    <div className={`px-4 py-3 rounded-lg border text-sm space-y-2 ${
+      simulation.success
+        ? 'border-green-300 dark:border-green-700 bg-green-50 dark:bg-green-900/20'
+        : 'border-red-300 dark:border-red-700 bg-red-50 dark:bg-red-900/20'
+    }`}>
+      <div className="flex items-center justify-between">
+        <span className={`font-semibold ${simulation.success ? 'text-green-800 dark:text-green-200' : 'text-red-800 dark:text-red-200'}`}>
+          {simulation.success ? '✅ Simulation passed' : '🚫 Simulation failed'}
+        </span>
+        <button type="button" onClick={onRetry} className="text-xs text-blue-600 dark:text-blue-400 hover:underline">
+          Re-run
+        </button>
+      </div>
+
+      {failedSteps.map((step) => (
+        <p key={step.index} className="text-xs text-gray-800 dark:text-gray-200">
+          {step.status === 'reverted' ? '❌' : '❔'} {step.index + 1}. {step.label}: {step.error}
+        </p>
+      ))}
+
+      <div className="text-xs text-gray-700 dark:text-gray-300 space-y-0.5">
+        <div className="flex justify-between">
+          <span>Estimated gas</span>
+          <span className="font-mono">
+            {Number(simulation.totalGas).toLocaleString()}
+            {simulation.estimatedFee && ` (~${parseFloat(simulation.estimatedFee).toPrecision(3)} ETH)`}
+          </span>
+        </div>
+        {simulation.balanceChanges.map((change) => (
+          <div key={change.token.address} className="flex justify-between">
+            <span>{change.token.symbol}</span>
+            <span className={`font-mono ${parseFloat(change.formattedDiff) > 0 ? 'text-green-700 dark:text-green-400' : 'text-red-700 dark:text-red-400'}`}>
+              {formatDiff(change.formattedDiff)}
+            </span>
+          </div>
+        ))}
+        {simulation.method === 'estimateGas' && (
+          <p className="opacity-70">Balance changes are unavailable: the RPC does not support full simulation.</p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,47 @@
+"use client";
+
+import { formatEther } from "viem";
+import { type DecodedTxStep } from "~/lib/txDecoder";
+import { truncateAddress } from "~/lib/truncateAddress";
+
+function DetailRow({ label, value, title }: { label: string; value: string; title?: string }) {
+  return (
+    <div className="flex items-center justify-between gap-2">
+      <span className="text-gray-500 dark:text-gray-400">{label}</span>
+      <span className="font-mono text-gray-800 dark:text-gray-200 truncate" title={title}>{value}</span>
+    </div>
+  );
+}
+
+/**
+ * What a txPlan step does according to its decoded calldata: target
+ * contract, spender, exact amount and the account it acts for.
+ */
+export function TxStepDetails({ step }: { step: DecodedTxStep }) {
+  const symbol = step.token?.symbol ?? '';
+
+  return (
+    <div className="mt-1 space-y-0.5 text-xs">
+      <DetailRow
+        label="Contract"
+        value={step.contract.known ? step.contract.name : truncateAddress(step.contract.address)}
+        title={step.contract.address}
+      />
+      {step.functionName && <DetailRow label="Function" value={step.functionName} />}
+      {step.spender && (
+        <DetailRow
+          label="Spender"
+          value={step.spender.known ? step.spender.name : truncateAddress(step.spender.address)}
+          title={step.spender.address}
+        />
+      )}
+      {step.formattedAmount && (
+        <DetailRow label="Amount" value={`${step.formattedAmount} ${step.isMaxAmount ? '' : symbol}`.trim()} />
+      )}
+      {step.beneficiary && (
+        <DetailRow label="On behalf of" value={truncateAddress(step.beneficiary)} title={step.beneficiary} />
+      )}
+      {step.value > 0n && <DetailRow label="ETH sent" value={formatEther(step.value)} />}
+    </div>
+  );
+}
@@ -0,0 +1,111 @@
+"use client";
+
+import { type ReactNode } from "react";
+import { type ArtifactContent } from "~/lib/agentSchema";
+import {
+  createTransactionSummary,
+  formatTransactionData,
+  type TransactionData,
+} from "~/lib/tokenUtils";
+import { Markdown } from "../Markdown";
+import { PositionsCard } from "./PositionsCard";
+
+type ArtifactKind = ArtifactContent['kind'];
+type ContentOf<K extends ArtifactKind> = Extract<ArtifactContent, { kind: K }>;
+
+/**
+ * Chat-level actions an artifact may trigger when it is received
+ */
+export interface ArtifactActions {
+  /** Queues a transaction plan for the user to approve */
+  setPendingTransaction: (data: TransactionData) => void;
+}
+
+/**
+ * How one kind of artifact shows up in the chat.
+ *
+ * `render` draws the artifact inside the assistant's message bubble;
+ * `onReceive` runs once when a completed agent response contains it.
+ */
+export interface ArtifactRenderer<K extends ArtifactKind> {
+  render: (content: ContentOf<K>) => ReactNode;
+  onReceive?: (content: ContentOf<K>, actions: ArtifactActions) => void;
+}
+
+/**
+ * Converts a transaction artifact into the TransactionData used by the
+ * transaction preview, with token amounts in human-readable units.
+ */
+function toTransactionData(content: ContentOf<'transaction'>): TransactionData {
+  const { txPreview, txPlan } = content.data;
+  return formatTransactionData({
+    tokenName: txPreview.tokenName,
+    amount: txPreview.amount,
+    action: txPreview.action,
+    chainId: txPreview.chainId,
+    txPlan,
+  });
+}
+
+/**
+ * Registry of artifact renderers keyed by artifact kind.
+ *
+ * Supporting a new agent capability means adding a kind to ArtifactContent
+ * and an entry here; the chat itself never branches on artifact shapes.
+ */
+export const artifactRenderers: { [K in ArtifactKind]: ArtifactRenderer<K> } = {
+  transaction: {
+    render: (content) => {
+      const data = toTransactionData(content);
+      return (
+        <div className="text-sm">
+          📋 Transaction Summary: {createTransactionSummary(data)}
+          <span className="text-xs opacity-70"> · {data.txPlan.length} step{data.txPlan.length === 1 ? '' : 's'}</span>
+        </div>
+      );
+    },
+    onReceive: (content, actions) => {
+      actions.setPendingTransaction(toTransactionData(content));
+    },
+  },
+  positions: {
+    render: (content) => <PositionsCard positions={content.data.positions} />,
+  },
+  text: {
+    render: (content) => <Markdown content={content.text} className="text-sm leading-relaxed" />,
+  },
+  data: {
+    render: (content) => (
+      <details className="text-xs">
+        <summary className="cursor-pointer opacity-70">Additional data</summary>
+        <pre className="mt-1 p-2 overflow-x-auto bg-black/5 dark:bg-white/5 rounded font-mono">
+          {JSON.stringify(content.data, null, 2)}
+        </pre>
+      </details>
+    ),
+  },
+  file: {
+    render: (content) => (
+      <div className="text-sm">
+        📎 {content.name || 'Attachment'}
+        {content.uri && <span className="block text-xs break-all opacity-70">{content.uri}</span>}
+      </div>
+    ),
+  },
+};
+
+/**
+ * Renders an artifact with the renderer registered for its kind.
+ */
+export function renderArtifact(content: ArtifactContent): ReactNode {
+  const renderer = artifactRenderers[content.kind] as ArtifactRenderer<ArtifactKind>;
+  return renderer.render(content as never);
+}
+
+/**
+ * Runs the `onReceive` hook registered for the artifact's kind, if any.
+ */
+export function receiveArtifact(content: ArtifactContent, actions: ArtifactActions) {
+  const renderer = artifactRenderers[content.kind] as ArtifactRenderer<ArtifactKind>;
+  renderer.onReceive?.(content as never, actions);
+}
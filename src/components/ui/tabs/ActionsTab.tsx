@@ -5,8 +5,10 @@ import { useMiniApp } from '@neynar/react';
 import { ShareButton } from '../Share';
 import { Button } from '../Button';
 import { SignIn } from '../wallet/SignIn';
+import { NotificationSettings } from '../NotificationSettings';
 import { type Haptics } from '@farcaster/miniapp-sdk';
 import { APP_URL } from '~/lib/constants';
+import { useSession } from '~/hooks/useSession';
 
 /**
  * ActionsTab component handles mini app actions like sharing, notifications, and haptic feedback.
@@ -15,6 +17,7 @@ import { APP_URL } from '~/lib/constants';
  * - Share the mini app with others
  * - Sign in with Farcaster
  * - Send notifications to their account
+ * - Choose which notifications they receive and set quiet hours
  * - Trigger haptic feedback
  * - Add the mini app to their client
  * - Copy share URLs
@@ -31,6 +34,7 @@ export function ActionsTab() {
   // --- Hooks ---
   const { actions, added, notificationDetails, haptics, context } =
     useMiniApp();
+  const { fetch: authFetch } = useSession();
 
   // --- State ---
   const [notificationState, setNotificationState] = useState({
@@ -56,7 +60,7 @@ export function ActionsTab() {
       return;
     }
     try {
-      const response = await fetch('/api/send-notification', {
+      const response = await authFetch('/api/send-notification', {
         method: 'POST',
         mode: 'same-origin',
         headers: { 'Content-Type': 'application/json' },
@@ -86,7 +90,7 @@ export function ActionsTab() {
         sendStatus: `Error: ${error}`,
       }));
     }
-  }, [context, notificationDetails]);
+  }, [context, notificationDetails, authFetch]);
 
   /**
    * Copies the share URL for the current user to the clipboard.
@@ -165,6 +169,7 @@ export function ActionsTab() {
       >
         Send notification
       </Button>
+      <NotificationSettings />
 
       {/* Share URL copying */}
       <Button
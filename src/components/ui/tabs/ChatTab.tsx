@@ -1,27 +1,99 @@
 "use client";
 
-import { useCallback, useState, useRef, useEffect } from "react";
-import { useAccount, useSendTransaction, useWaitForTransactionReceipt, useSwitchChain, useChainId, useConnect, useDisconnect } from "wagmi";
+import { useCallback, useMemo, useState, useRef, useEffect } from "react";
+import { useAccount, useSwitchChain, useChainId, useConnect, useDisconnect } from "wagmi";
 import { arbitrum } from "wagmi/chains";
+import { useMiniApp } from "@neynar/react";
 import { Button } from "../Button";
+import { Markdown } from "../Markdown";
+import { ExternalLink } from "../ExternalLink";
 import { truncateAddress } from "../../../lib/truncateAddress";
 import { renderError } from "../../../lib/errorUtils";
-import { formatTransactionData, createTransactionSummary, type TransactionData } from "../../../lib/tokenUtils";
-
-interface ChatMessage {
-  id: string;
-  type: 'user' | 'assistant' | 'system';
-  content: string;
-  timestamp: Date;
-}
+import { createTransactionSummary, type TransactionData } from "../../../lib/tokenUtils";
+import { readAgentStream } from "../../../lib/agentStream";
+import {
+  classifyArtifactPart,
+  collectArtifactContents,
+  getMessageText,
+  type AgentResponse,
+  type ArtifactContent,
+} from "../../../lib/agentSchema";
+import { type ChatMessage } from "../../../lib/chatSessions";
+import { useChatSessions } from "../../../hooks/useChatSessions";
+import { useWalletProof } from "../../../hooks/useWalletProof";
+import { useSession } from "../../../hooks/useSession";
+import { type WalletProof } from "../../../lib/walletProof";
+import {
+  createTxStep,
+  useTxPlanExecutor,
+  type TxPlanExecutorCallbacks,
+  type TxPlanStatus,
+  type TxStep,
+  type TxStepStatus,
+} from "../../../hooks/useTxPlanExecutor";
+import { renderArtifact, receiveArtifact, type ArtifactActions } from "../chat/artifactRenderers";
+import { ChatSessionList } from "../chat/ChatSessionList";
+import { TxStepDetails } from "../chat/TxStepDetails";
+import { SimulationSummary } from "../chat/SimulationSummary";
+import { HealthFactorImpact } from "../chat/HealthFactorImpact";
+import { useHealthFactorImpact, type HealthFactorImpactState } from "../../../hooks/useHealthFactorImpact";
+import { type HealthFactorRisk } from "../../../lib/healthFactor";
+import { useTxPlanSimulation, type TxPlanSimulationState } from "../../../hooks/useTxPlanSimulation";
+import { getTxPlanWarnings } from "../../../lib/txDecoder";
+import { type DeepLink } from "../../../lib/deepLinks";
 
+/**
+ * Shown at the top of every conversation; not stored with the session
+ */
+const WELCOME_MESSAGE: ChatMessage = {
+  id: 'welcome',
+  type: 'assistant',
+  content: '👋 Welcome to your DeFi Assistant!\n\nI can help you with lending, borrowing, swapping, and other DeFi operations on Arbitrum. Just tell me what you\'d like to do in plain English!\n\nExamples:\n• "Supply 0.1 USDC"\n• "Borrow 0.05 ETH"\n• "Check my lending positions"',
+  timestamp: new Date(),
+};
 
 
 interface TransactionPreviewProps {
   data: TransactionData;
+  /** Execution state of each txPlan step */
+  steps: TxStep[];
+  status: TxPlanStatus;
+  /** The steps are (or will be) sent as one wallet_sendCalls batch */
+  batched: boolean;
+  /** Discrepancies between the decoded calldata and the agent's preview */
+  warnings: string[];
+  simulation: TxPlanSimulationState;
+  healthFactor: HealthFactorImpactState;
+  healthFactorRisk: HealthFactorRisk;
+  healthFactorAcknowledged: boolean;
+  /** Signing stays disabled until the plan simulated successfully and its health factor impact is acceptable */
+  canSign: boolean;
+  onRerunSimulation: () => void;
+  onSkipSimulation: () => void;
+  onAcknowledgeHealthFactor: (acknowledged: boolean) => void;
+  onRefreshHealthFactor: () => void;
   onApprove: () => void;
   onReject: () => void;
-  isLoading: boolean;
+  onRetry: () => void;
+  onAbort: () => void;
+}
+
+const TX_STEP_STATUS_LABELS: Record<TxStepStatus, string> = {
+  'pending': 'Waiting',
+  'switching-chain': '🔄 Switching network',
+  'signing': '✍️ Confirm in wallet',
+  'confirming': '⏳ Confirming',
+  'confirmed': '✅ Confirmed',
+  'failed': '❌ Failed',
+};
+
+/**
+ * Formats a Retry-After delay for the chat, e.g. "45 seconds" or "3 hours".
+ */
+function formatRetryAfter(seconds: number): string {
+  if (seconds < 90) return `${Math.max(seconds, 1)} seconds`;
+  if (seconds < 90 * 60) return `${Math.round(seconds / 60)} minutes`;
+  return `${Math.round(seconds / 3600)} hours`;
 }
 
 interface CopyButtonProps {
@@ -77,7 +149,29 @@ function CopyButton({ text, label = "Copy", className = "" }: CopyButtonProps) {
 /**
  * Modern transaction preview with glassmorphism design
  */
-function TransactionPreview({ data, onApprove, onReject, isLoading }: TransactionPreviewProps) {
+function TransactionPreview({
+  data,
+  steps,
+  status,
+  batched,
+  warnings,
+  simulation,
+  healthFactor,
+  healthFactorRisk,
+  healthFactorAcknowledged,
+  canSign,
+  onRerunSimulation,
+  onSkipSimulation,
+  onAcknowledgeHealthFactor,
+  onRefreshHealthFactor,
+  onApprove,
+  onReject,
+  onRetry,
+  onAbort,
+}: TransactionPreviewProps) {
+  const isRunning = status === 'running';
+  const canRetry = status === 'failed' || status === 'aborted';
+
   return (
     <div className="relative overflow-hidden rounded-xl bg-gradient-to-br from-blue-50/80 to-indigo-100/80 dark:from-blue-900/20 dark:to-indigo-900/30 border border-blue-200/50 dark:border-blue-700/50 backdrop-blur-sm">
       {/* Animated background gradient */}
@@ -99,11 +193,13 @@ function TransactionPreview({ data, onApprove, onReject, isLoading }: Transactio
             </div>
             <div>
               <h3 className="font-semibold text-gray-900 dark:text-gray-100">Transaction Preview</h3>
-              <p className="text-sm text-gray-600 dark:text-gray-400">Ready to execute</p>
+              <p className="text-sm text-gray-600 dark:text-gray-400">
+                {isRunning ? 'Executing...' : canRetry ? 'Stopped' : 'Ready to execute'}
+              </p>
             </div>
           </div>
           <div className="px-3 py-1 bg-gradient-to-r from-green-500 to-emerald-500 text-white text-xs font-medium rounded-full shadow-sm">
-            {data.txPlan.length} steps
+            {batched ? `${data.txPlan.length} steps · 1 signature` : `${data.txPlan.length} steps`}
           </div>
         </div>
 
@@ -135,15 +231,67 @@ function TransactionPreview({ data, onApprove, onReject, isLoading }: Transactio
           </div>
         </div>
 
+        {/* Steps */}
+        {batched && (
+          <p className="text-xs text-gray-600 dark:text-gray-400">
+            ⚡ Your wallet supports batching: all steps are confirmed once and executed together.
+          </p>
+        )}
+        <ol className="space-y-2">
+          {steps.map((step, index) => (
+            <li
+              key={index}
+              className="px-4 py-2 bg-white/50 dark:bg-gray-800/50 rounded-lg text-sm"
+            >
+              <div className="flex items-center justify-between">
+                <span className="font-medium text-gray-900 dark:text-gray-100">
+                  {index + 1}. {step.label}
+                </span>
+                <span className={`text-xs ${step.status === 'failed' ? 'text-red-600 dark:text-red-400' : 'text-gray-600 dark:text-gray-400'}`}>
+                  {TX_STEP_STATUS_LABELS[step.status]}
+                </span>
+              </div>
+              <TxStepDetails step={step.decoded} />
+            </li>
+          ))}
+        </ol>
+
+        {/* Simulation */}
+        <SimulationSummary
+          state={simulation}
+          steps={steps}
+          onRetry={onRerunSimulation}
+          onSkip={onSkipSimulation}
+        />
+
+        {/* Health factor */}
+        <HealthFactorImpact
+          state={healthFactor}
+          risk={healthFactorRisk}
+          acknowledged={healthFactorAcknowledged}
+          onAcknowledge={onAcknowledgeHealthFactor}
+          onRefresh={onRefreshHealthFactor}
+        />
+
+        {/* Calldata checks */}
+        {warnings.length > 0 && (
+          <div className="p-3 rounded-lg border border-amber-300 dark:border-amber-700 bg-amber-50 dark:bg-amber-900/30 text-amber-800 dark:text-amber-200">
+            <p className="text-sm font-semibold">⚠️ Review before signing</p>
+            <ul className="mt-1 list-disc pl-5 space-y-0.5 text-xs">
+              {warnings.map((warning, index) => <li key={index}>{warning}</li>)}
+            </ul>
+          </div>
+        )}
+
         {/* Action Buttons */}
         <div className="flex space-x-3 pt-2">
           <Button
-            onClick={onApprove}
-            disabled={isLoading}
-            isLoading={isLoading}
+            onClick={canRetry ? onRetry : onApprove}
+            disabled={isRunning || (!canRetry && !canSign)}
+            isLoading={isRunning}
             className="flex-1 bg-gradient-to-r from-green-500 to-emerald-600 hover:from-green-600 hover:to-emerald-700 text-white shadow-lg hover:shadow-xl transition-all duration-200 transform hover:-translate-y-0.5"
           >
-            {isLoading ? (
+            {isRunning ? (
               <div className="flex items-center space-x-2">
                 <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin"></div>
                 <span>Processing...</span>
@@ -153,19 +301,18 @@ function TransactionPreview({ data, onApprove, onReject, isLoading }: Transactio
                 <svg className="w-4 h-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
                 </svg>
-                Approve & Sign
+                {canRetry ? 'Retry' : 'Approve & Sign'}
               </>
             )}
           </Button>
           <Button
-            onClick={onReject}
-            disabled={isLoading}
+            onClick={isRunning ? onAbort : onReject}
             className="flex-1 bg-gradient-to-r from-red-500 to-red-600 hover:from-red-600 hover:to-red-700 text-white shadow-lg hover:shadow-xl transition-all duration-200 transform hover:-translate-y-0.5"
           >
             <svg className="w-4 h-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
             </svg>
-            Reject
+            {isRunning ? 'Abort' : 'Reject'}
           </Button>
         </div>
       </div>
@@ -215,9 +362,18 @@ function MessageBubble({ message }: { message: ChatMessage }) {
             : 'bg-gray-100 dark:bg-gray-800 text-gray-900 dark:text-gray-100 border-gray-200 dark:border-gray-700 rounded-bl-md'
         }`}
         >
-          <p className="text-sm leading-relaxed whitespace-pre-wrap font-medium">
-            {message.content}
-          </p>
+          {isUser ? (
+            <p className="text-sm leading-relaxed whitespace-pre-wrap font-medium">
+              {message.content}
+            </p>
+          ) : (
+            <Markdown content={message.content} className="text-sm leading-relaxed font-medium" />
+          )}
+          {message.attachments?.map((attachment, index) => (
+            <div key={index} className="mt-3 pt-3 border-t border-gray-200 dark:border-gray-700">
+              {renderArtifact(attachment)}
+            </div>
+          ))}
           <p className={`text-xs mt-2 ${
             isUser ? 'text-blue-100' : isSystem ? 'text-orange-700' : 'text-gray-500'
           }`}>
@@ -232,7 +388,7 @@ function MessageBubble({ message }: { message: ChatMessage }) {
 /**
  * Transaction success message with copy functionality
  */
-function TransactionSuccess({ hash }: { hash: string }) {
+function TransactionSuccess({ hash, title = 'Transaction Successful!' }: { hash: string; title?: string }) {
   const arbiscanUrl = `https://arbiscan.io/tx/${hash}`;
   
   return (
@@ -243,7 +399,7 @@ function TransactionSuccess({ hash }: { hash: string }) {
             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
           </svg>
         </div>
-        <span className="font-medium text-green-800 dark:text-green-200">Transaction Successful!</span>
+        <span className="font-medium text-green-800 dark:text-green-200">{title}</span>
       </div>
       
       <div className="space-y-2">
@@ -259,17 +415,15 @@ function TransactionSuccess({ hash }: { hash: string }) {
           <span className="text-sm text-green-700 dark:text-green-300">View on Explorer:</span>
           <div className="flex space-x-2">
             <CopyButton text={arbiscanUrl} label="Copy Link" />
-            <a
+            <ExternalLink
               href={arbiscanUrl}
-              target="_blank"
-              rel="noopener noreferrer"
               className="inline-flex items-center gap-1 px-3 py-1 bg-blue-500 hover:bg-blue-600 text-white text-xs font-medium rounded-md transition-colors duration-200"
             >
               <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 6H6a2 2 0 00-2 2v10a2 2 0 002 2h10a2 2 0 002-2v-4M14 4h6m0 0v6m0-6L10 14" />
               </svg>
               View on Arbiscan
-            </a>
+            </ExternalLink>
           </div>
         </div>
       </div>
@@ -277,24 +431,25 @@ function TransactionSuccess({ hash }: { hash: string }) {
   );
 }
 
+interface ChatTabProps {
+  /** Link the app was opened with, e.g. from a notification */
+  deepLink?: DeepLink | null;
+  /** Called once the deep link was applied, so it is not applied again */
+  onDeepLinkHandled?: () => void;
+}
+
 /**
  * ChatTab component provides a ChatGPT-like interface for DeFi interactions.
  */
-export function ChatTab() {
+export function ChatTab({ deepLink, onDeepLinkHandled }: ChatTabProps = {}) {
   // --- State ---
-  const [messages, setMessages] = useState<ChatMessage[]>([
-    {
-      id: '1',
-      type: 'assistant',
-      content: '👋 Welcome to your DeFi Assistant!\n\nI can help you with lending, borrowing, swapping, and other DeFi operations on Arbitrum. Just tell me what you\'d like to do in plain English!\n\nExamples:\n• "Supply 0.1 USDC"\n• "Borrow 0.05 ETH"\n• "Check my lending positions"',
-      timestamp: new Date(),
-    }
-  ]);
   const [inputValue, setInputValue] = useState('');
   const [isLoading, setIsLoading] = useState(false);
-  const [pendingTransaction, setPendingTransaction] = useState<TransactionData | null>(null);
-  const [currentTxIndex, setCurrentTxIndex] = useState(0);
   const [txHash, setTxHash] = useState<string | null>(null);
+  // Transaction opened through a deep link; unlike txHash it survives session switches
+  const [linkedTxHash, setLinkedTxHash] = useState<string | null>(null);
+  const [skipSimulation, setSkipSimulation] = useState(false);
+  const [healthFactorAcknowledged, setHealthFactorAcknowledged] = useState(false);
 
   // --- Refs ---
   const messagesEndRef = useRef<HTMLDivElement>(null);
@@ -302,27 +457,147 @@ export function ChatTab() {
 
   // --- Hooks ---
   const { address, isConnected } = useAccount();
+  const { context } = useMiniApp();
+  const {
+    sessions,
+    activeSession,
+    updateSession,
+    createSession,
+    selectSession,
+    renameSession,
+    deleteSession,
+    syncError,
+    retrySync,
+  } = useChatSessions(address, context?.user?.fid);
+  const sessionId = activeSession.id;
+  const { messages, pendingTransaction } = activeSession;
   const chainId = useChainId();
   const { switchChain, isPending: isChainSwitching } = useSwitchChain();
   const { connect, connectors } = useConnect();
   const { disconnect } = useDisconnect();
+  const { getStoredProof, signProof } = useWalletProof(context?.user?.fid, address);
+  // Users outside Farcaster have no QuickAuth token and sign in with Ethereum instead
+  const isFarcasterUser = Boolean(context?.user);
   const {
-    sendTransaction,
+    session: authSession,
+    fetch: authFetch,
+    signIn,
+    refresh: refreshAuthSession,
+  } = useSession();
+
+  // --- Helpers ---
+  // Both setters write to the session that was active when they were created,
+  // so a streaming reply still lands in its own conversation after switching
+  const setMessages = useCallback((update: (prev: ChatMessage[]) => ChatMessage[]) => {
+    updateSession(sessionId, (session) => ({ ...session, messages: update(session.messages) }));
+  }, [sessionId, updateSession]);
+
+  const setPendingTransaction = useCallback((data: TransactionData | null) => {
+    updateSession(sessionId, (session) => ({ ...session, pendingTransaction: data }));
+  }, [sessionId, updateSession]);
+
+  const scrollToBottom = () => {
+    messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
+  };
+
+  const addMessage = useCallback((type: ChatMessage['type'], content: string, attachments?: ArtifactContent[]): string => {
+    const newMessage: ChatMessage = {
+      id: Date.now().toString() + Math.random().toString(36).substr(2, 9),
+      type,
+      content,
+      timestamp: new Date(),
+      attachments,
+    };
+    setMessages(prev => [...prev, newMessage]);
+    return newMessage.id;
+  }, [setMessages]);
+
+  const updateMessage = useCallback((id: string, update: Partial<Omit<ChatMessage, 'id'>>) => {
+    setMessages(prev => prev.map(message =>
+      message.id === id ? { ...message, ...update } : message
+    ));
+  }, [setMessages]);
+
+  const txCallbacks = useMemo<TxPlanExecutorCallbacks>(() => ({
+    onStepSubmitted: (step, index, total) => {
+      addMessage('system', `✅ ${step.label} transaction sent (${index + 1}/${total})!\n📤 Hash: ${truncateAddress(step.hash ?? '')}\n⏳ Waiting for confirmation...`);
+    },
+    onBatchSubmitted: (steps) => {
+      addMessage('system', `✅ Batch of ${steps.length} transactions sent!\n⏳ Waiting for confirmation...`);
+    },
+    onStepConfirmed: (step, index, total) => {
+      if (index + 1 < total) {
+        addMessage('system', `✅ ${step.label} confirmed. Continuing with step ${index + 2}/${total}...`);
+      }
+    },
+    onCompleted: (steps) => {
+      const summary = pendingTransaction ? createTransactionSummary(pendingTransaction) : 'Transaction';
+      addMessage('system', `🎉 Transaction confirmed! ${summary} completed successfully.`);
+      setTxHash(steps[steps.length - 1]?.hash ?? null);
+      setPendingTransaction(null);
+    },
+    onFailed: (step) => {
+      addMessage('system', `❌ ${step.label} failed. You can retry from this step or reject the transaction.`);
+    },
+  }), [addMessage, pendingTransaction, setPendingTransaction]);
+
+  const {
+    steps: txSteps,
+    status: txStatus,
+    mode: txMode,
     error: txError,
-    isError: isTxError,
-    isPending: isTxPending,
-  } = useSendTransaction();
+    execute: executeTxPlan,
+    retry: retryTxPlan,
+    abort: abortTxPlan,
+    reset: resetTxPlan,
+    canBatch,
+  } = useTxPlanExecutor(txCallbacks);
 
-  const { isLoading: isTxConfirming, isSuccess: isTxConfirmed } =
-    useWaitForTransactionReceipt({
-      hash: txHash as `0x${string}`,
-    });
+  // Before execution starts, show the decoded steps of the pending plan
+  const previewSteps = useMemo(
+    () => pendingTransaction?.txPlan.map(createTxStep) ?? [],
+    [pendingTransaction]
+  );
+
+  const { state: simulationState, rerun: rerunSimulation } =
+    useTxPlanSimulation(pendingTransaction?.txPlan, address);
+  const { state: healthFactorState, risk: healthFactorRisk, refresh: refreshHealthFactor } =
+    useHealthFactorImpact(pendingTransaction?.txPlan, address);
+  const canSign =
+    ((simulationState.status === 'done' && simulationState.simulation.success) || skipSimulation) &&
+    healthFactorRisk !== 'blocked' &&
+    (healthFactorRisk !== 'warning' || healthFactorAcknowledged);
+
+  const txWarnings = useMemo(
+    () => (pendingTransaction ? getTxPlanWarnings(pendingTransaction, address) : []),
+    [pendingTransaction, address]
+  );
 
   // --- Effects ---
   useEffect(() => {
     scrollToBottom();
   }, [messages, pendingTransaction]);
 
+  useEffect(() => {
+    // A resumed session starts its pending transaction from the first step
+    resetTxPlan();
+    setTxHash(null);
+  }, [sessionId, resetTxPlan]);
+
+  useEffect(() => {
+    // Every new plan has to pass its own simulation and risk acknowledgement
+    setSkipSimulation(false);
+    setHealthFactorAcknowledged(false);
+  }, [pendingTransaction]);
+
+  useEffect(() => {
+    // Prefill the prompt rather than sending it, so the user reviews it first
+    if (!deepLink) return;
+    if (deepLink.prompt) setInputValue(deepLink.prompt);
+    if (deepLink.tx) setLinkedTxHash(deepLink.tx);
+    onDeepLinkHandled?.();
+  }, [deepLink, onDeepLinkHandled]);
+
   useEffect(() => {
     // Auto-focus the input when component mounts and is ready
     if (inputRef.current && isConnected && chainId === arbitrum.id) {
@@ -332,51 +607,19 @@ export function ChatTab() {
     }
   }, [isConnected, chainId]);
 
-  useEffect(() => {
-    if (isTxConfirmed && txHash && pendingTransaction) {
-      const summary = createTransactionSummary(pendingTransaction);
-      addMessage('system', `🎉 Transaction confirmed! ${summary} completed successfully.`);
-      
-      // Check if there are more transactions to process
-      if (currentTxIndex + 1 < pendingTransaction.txPlan.length) {
-        // Don't reset yet, move to next transaction
-        return;
-      }
-      
-      // All transactions completed, reset state
-      setPendingTransaction(null);
-      setCurrentTxIndex(0);
-      setTxHash(null);
-    }
-  }, [isTxConfirmed, txHash, pendingTransaction, currentTxIndex]);
 
-  // --- Helpers ---
-  const scrollToBottom = () => {
-    messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-  };
-
-  const addMessage = (type: ChatMessage['type'], content: string) => {
-    const newMessage: ChatMessage = {
-      id: Date.now().toString() + Math.random().toString(36).substr(2, 9),
-      type,
-      content,
-      timestamp: new Date(),
-    };
-    console.log('Adding message:', newMessage);
-    setMessages(prev => {
-      const newMessages = [...prev, newMessage];
-      console.log('Updated messages:', newMessages);
-      return newMessages;
-    });
-  };
+  const artifactActions = useMemo<ArtifactActions>(() => ({
+    setPendingTransaction: (data) => {
+      resetTxPlan();
+      setPendingTransaction(data);
+    },
+  }), [setPendingTransaction, resetTxPlan]);
 
   // --- Handlers ---
   const handleSubmit = useCallback(async (e: React.FormEvent) => {
     e.preventDefault();
     if (!inputValue.trim() || isLoading) return;
 
-    console.log('Form submitted with input:', inputValue);
-
     if (!isConnected) {
       addMessage('system', '🔗 Please connect your MetaMask wallet first by going to the Wallet tab.');
       return;
@@ -394,103 +637,133 @@ export function ChatTab() {
     }
 
     const userMessage = inputValue.trim();
-    console.log('Adding user message:', userMessage);
     addMessage('user', userMessage);
     setInputValue('');
     setIsLoading(true);
 
     try {
-      const response = await fetch('/api/lending-agent', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          instruction: userMessage,
-          userAddress: address,
-        }),
-      });
+      if (!isFarcasterUser && authSession?.address?.toLowerCase() !== address?.toLowerCase()) {
+        addMessage('system', '✍️ Please sign the message in your wallet to sign in with Ethereum.');
+        if (!(await signIn())) {
+          addMessage('system', '🚫 Not signed in, so the request was not sent.');
+          return;
+        }
+      }
+
+      const requestAgent = (walletProof?: WalletProof) =>
+        authFetch('/api/lending-agent', {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({
+            instruction: userMessage,
+            userAddress: address,
+            sessionId,
+            stream: true,
+            walletProof,
+          }),
+        });
+
+      let response = await requestAgent(getStoredProof());
+
+      // Wallets that are not verified on the user's Farcaster account need a signed proof
+      if (response.status === 403) {
+        const { code } = await response.json();
+        if (code !== 'wallet_not_verified') {
+          throw new Error(`API request failed: ${response.statusText}`);
+        }
+        addMessage('system', '✍️ This wallet is not verified on your Farcaster account. Please sign the message in your wallet to prove it is yours.');
+        let walletProof: WalletProof;
+        try {
+          walletProof = await signProof();
+        } catch (error) {
+          console.error('Wallet proof failed:', error);
+          addMessage('system', '🚫 Wallet not verified, so the request was not sent.');
+          return;
+        }
+        // The new proof also lets chat history sync
+        if (syncError) retrySync();
+        response = await requestAgent(walletProof);
+      }
+
+      if (response.status === 401) {
+        if (isFarcasterUser) {
+          addMessage('system', '🔒 Please sign in with Farcaster to use the lending agent.');
+        } else {
+          refreshAuthSession();
+          addMessage('system', '🔒 Your sign-in has expired. Send your message again to sign in with Ethereum.');
+          setInputValue(userMessage);
+        }
+        return;
+      }
+
+      if (response.status === 429) {
+        const { error } = await response.json().catch(() => ({}));
+        const retryAfter = Number(response.headers.get('Retry-After')) || 60;
+        addMessage('system', `⏳ ${error || 'Too many requests'}. Please give the agent a break and try again in ${formatRetryAfter(retryAfter)}.`);
+        setInputValue(userMessage);
+        return;
+      }
 
       if (!response.ok) {
         throw new Error(`API request failed: ${response.statusText}`);
       }
 
-      const result = await response.json();
+      // Render the assistant bubble incrementally as the agent reports progress
+      let streamingMessageId: string | null = null;
+      const progressLines: string[] = [];
+      const streamedAttachments: ArtifactContent[] = [];
+      const showProgress = (update: Partial<ChatMessage>) => {
+        const content = progressLines.join('\n');
+        if (streamingMessageId) {
+          updateMessage(streamingMessageId, { content, ...update });
+        } else {
+          streamingMessageId = addMessage('assistant', content, update.attachments);
+        }
+      };
+      const showAssistantText = (text: string, attachments?: ArtifactContent[]) => {
+        if (streamingMessageId) {
+          updateMessage(streamingMessageId, { content: text, attachments });
+        } else {
+          addMessage('assistant', text, attachments);
+        }
+      };
 
-      if (result.success && result.data.status.state === 'completed') {
-        const artifact = result.data.artifacts?.[0];
-        if (artifact?.parts?.[0]?.data) {
-          const artifactData = artifact.parts[0].data;
-          
-          addMessage('assistant', result.data.status.message.parts[0].text);
-          
-          // Check if this is transaction data
-          if (artifactData.txPreview && artifactData.txPlan) {
-            const { txPreview, txPlan } = artifactData;
-            
-            const rawTransactionData: TransactionData = {
-              tokenName: txPreview.tokenName,
-              amount: txPreview.amount,
-              action: txPreview.action,
-              chainId: txPreview.chainId,
-              txPlan,
-            };
-            
-            // Format the transaction data to ensure correct decimal handling
-            const formattedTransactionData = formatTransactionData(rawTransactionData);
-            
-            // Debug logging to help identify conversion issues
-            console.log('Raw Transaction Data:', rawTransactionData);
-            console.log('Formatted Transaction Data:', formattedTransactionData);
-            console.log('Transaction Plan:', txPlan);
-            
-            // Add a formatted summary message
-            const summary = createTransactionSummary(formattedTransactionData);
-            addMessage('system', `📋 Transaction Summary: ${summary}`);
-            
-            setPendingTransaction(formattedTransactionData);
-            setCurrentTxIndex(0);
-          }
-          // Check if this is positions/balance data
-          else if (artifactData.positions && Array.isArray(artifactData.positions) && artifactData.positions.length > 0) {
-            const positionData = artifactData.positions[0];
-            const formatUsdValue = (value: string) => {
-              const num = parseFloat(value);
-              if (num === 0) return "$0.00";
-              if (num < 0.01) return `$${num.toFixed(6)}`;
-              return `$${num.toFixed(2)}`;
-            };
-            
-            const formatPercentage = (value: string) => {
-              const num = parseFloat(value) * 100;
-              return `${num.toFixed(2)}%`;
-            };
-            
-            const positionSummary = `💰 **Your AAVE Position Summary**
-
-📊 **Liquidity & Collateral**
-• Total Liquidity: ${formatUsdValue(positionData.totalLiquidityUsd)}
-• Total Collateral: ${formatUsdValue(positionData.totalCollateralUsd)}
-• Available to Borrow: ${formatUsdValue(positionData.availableBorrowsUsd)}
-
-📈 **Borrowing Status**
-• Total Borrowed: ${formatUsdValue(positionData.totalBorrowsUsd)}
-• Net Worth: ${formatUsdValue(positionData.netWorthUsd)}
-
-🔒 **Risk Metrics**
-• Current LTV: ${formatPercentage(positionData.currentLoanToValue)}
-• Liquidation Threshold: ${formatPercentage(positionData.currentLiquidationThreshold)}
-• Health Factor: ${positionData.healthFactor}
-
-${parseFloat(positionData.healthFactor) > 2 ? '✅ Your position is healthy!' : parseFloat(positionData.healthFactor) > 1.2 ? '⚠️ Monitor your position closely' : '🚨 Risk of liquidation!'}`;
-            
-            addMessage('system', positionSummary);
+      let result: AgentResponse | null = null;
+      for await (const event of readAgentStream(response)) {
+        if (event.type === 'status' && event.text && event.state !== 'completed') {
+          progressLines.push(event.text);
+          showProgress({});
+        } else if (event.type === 'tool') {
+          const icon = event.status === 'completed' ? '✅' : event.status === 'failed' ? '⚠️' : '🔧';
+          progressLines.push(`${icon} ${event.text || event.name}`);
+          showProgress({});
+        } else if (event.type === 'artifact') {
+          streamedAttachments.push(...event.artifact.parts.map(classifyArtifactPart));
+          showProgress({ attachments: [...streamedAttachments] });
+        } else if (event.type === 'result') {
+          result = event.result;
+        } else if (event.type === 'error') {
+          if (event.issues) {
+            console.error('Invalid agent response:', event.issues);
+            showAssistantText('⚠️ The agent returned a response I couldn\'t understand. Please try again in a moment.');
+            return;
           }
-        } else {
-          addMessage('assistant', result.data.status.message.parts[0].text);
+          throw new Error(event.error);
         }
+      }
+
+      if (!result) {
+        throw new Error('Stream ended without a result');
+      }
+
+      if (result.success && result.data.status.state === 'completed') {
+        const attachments = collectArtifactContents(result.data);
+        showAssistantText(getMessageText(result.data.status.message), attachments);
+        attachments.forEach((attachment) => receiveArtifact(attachment, artifactActions));
       } else {
-        addMessage('assistant', '🤔 Sorry, I couldn\'t process your request. Could you please try rephrasing it or be more specific about what you\'d like to do?');
+        showAssistantText('🤔 Sorry, I couldn\'t process your request. Could you please try rephrasing it or be more specific about what you\'d like to do?');
       }
     } catch (error) {
       console.error('API Error:', error);
@@ -498,53 +771,25 @@ ${parseFloat(positionData.healthFactor) > 2 ? '✅ Your position is healthy!' :
     } finally {
       setIsLoading(false);
     }
-  }, [inputValue, isLoading, isConnected, chainId, address, switchChain]);
+  }, [inputValue, isLoading, isConnected, chainId, address, sessionId, switchChain, artifactActions, addMessage, updateMessage, getStoredProof, signProof, syncError, retrySync, isFarcasterUser, authSession, authFetch, signIn, refreshAuthSession]);
 
   const handleTransactionApprove = useCallback(async () => {
-    if (!pendingTransaction || currentTxIndex >= pendingTransaction.txPlan.length) {
-      return;
-    }
+    if (!pendingTransaction) return;
+    setTxHash(null);
+    addMessage('system', `📝 Executing ${pendingTransaction.txPlan.length} step${pendingTransaction.txPlan.length === 1 ? '' : 's'}...\nPlease confirm each transaction in your wallet.`);
+    await executeTxPlan(pendingTransaction.txPlan);
+  }, [pendingTransaction, executeTxPlan, addMessage]);
 
-    const currentTx = pendingTransaction.txPlan[currentTxIndex];
-    
-    try {
-      const stepType = currentTxIndex === 0 ? 'Approval' : 'Supply';
-      addMessage('system', `📝 Sending ${stepType} transaction (${currentTxIndex + 1}/${pendingTransaction.txPlan.length})...\nPlease confirm in your wallet.`);
-      
-      await sendTransaction(
-        {
-          to: currentTx.to as `0x${string}`,
-          data: currentTx.data as `0x${string}`,
-          value: BigInt(currentTx.value || '0'),
-        },
-        {
-          onSuccess: (hash) => {
-            setTxHash(hash);
-            
-            // Move to next transaction or complete
-            if (currentTxIndex + 1 < pendingTransaction.txPlan.length) {
-              setCurrentTxIndex(currentTxIndex + 1);
-              const nextStepType = currentTxIndex + 1 === 0 ? 'Approval' : 'Supply';
-              addMessage('system', `✅ ${stepType} transaction sent!\n📤 Hash: ${truncateAddress(hash)}\n⏳ Waiting for confirmation before proceeding to ${nextStepType}...`);
-            } else {
-              addMessage('system', `✅ Final transaction sent!\n📤 Hash: ${truncateAddress(hash)}\n⏳ Waiting for blockchain confirmation...`);
-            }
-          },
-        }
-      );
-    } catch (error) {
-      console.error('Transaction failed:', error);
-      addMessage('system', '❌ Transaction failed. Please try again or check your wallet connection.');
-      setPendingTransaction(null);
-      setCurrentTxIndex(0);
-    }
-  }, [pendingTransaction, currentTxIndex, sendTransaction]);
+  const handleTransactionAbort = useCallback(() => {
+    abortTxPlan();
+    addMessage('system', '⏹️ Stopping after the current step...');
+  }, [abortTxPlan, addMessage]);
 
   const handleTransactionReject = useCallback(() => {
+    resetTxPlan();
     setPendingTransaction(null);
-    setCurrentTxIndex(0);
     addMessage('system', '🚫 Transaction cancelled.');
-  }, []);
+  }, [addMessage, setPendingTransaction, resetTxPlan]);
 
   // --- Render ---
   return (
@@ -631,6 +876,22 @@ ${parseFloat(positionData.healthFactor) > 2 ? '✅ Your position is healthy!' :
         </div>
       )}
 
+      <ChatSessionList
+        sessions={sessions}
+        activeSessionId={sessionId}
+        disabled={isLoading || txStatus === 'running'}
+        onSelect={selectSession}
+        onCreate={createSession}
+        onRename={renameSession}
+        onDelete={deleteSession}
+      />
+
+      {syncError && (
+        <p className="mx-4 mt-2 p-2 rounded-lg border border-amber-300 dark:border-amber-700 bg-amber-50 dark:bg-amber-900/30 text-xs text-amber-800 dark:text-amber-200">
+          {syncError}
+        </p>
+      )}
+
       {/* Messages Container - Improved scrolling and visibility */}
       <div className="flex-1 overflow-hidden relative" style={{ 
         marginTop: (!isConnected || chainId !== arbitrum.id) ? '20px' : '0px' 
@@ -646,7 +907,7 @@ ${parseFloat(positionData.healthFactor) > 2 ? '✅ Your position is healthy!' :
           paddingTop: (!isConnected || chainId !== arbitrum.id) ? '10px' : '24px'
         }}>
           {/* Welcome Message for Empty State */}
-          {messages.length <= 1 && (
+          {messages.length === 0 && (
             <div className="text-center py-8 opacity-60">
               <div className="w-16 h-16 mx-auto mb-4 bg-gradient-to-br from-blue-500 to-indigo-600 rounded-full flex items-center justify-center shadow-lg">
                 <svg className="w-8 h-8 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -659,6 +920,8 @@ ${parseFloat(positionData.healthFactor) > 2 ? '✅ Your position is healthy!' :
             </div>
           )}
 
+          <MessageBubble message={WELCOME_MESSAGE} />
+
           {messages.map((message) => (
             <MessageBubble key={message.id} message={message} />
           ))}
@@ -669,16 +932,39 @@ ${parseFloat(positionData.healthFactor) > 2 ? '✅ Your position is healthy!' :
               <div className="w-full max-w-2xl">
                 <TransactionPreview
                   data={pendingTransaction}
+                  steps={txSteps.length > 0 ? txSteps : previewSteps}
+                  status={txStatus}
+                  batched={txMode ? txMode === 'batch' : canBatch(pendingTransaction.txPlan)}
+                  warnings={txWarnings}
+                  simulation={simulationState}
+                  healthFactor={healthFactorState}
+                  healthFactorRisk={healthFactorRisk}
+                  healthFactorAcknowledged={healthFactorAcknowledged}
+                  canSign={canSign}
+                  onRerunSimulation={rerunSimulation}
+                  onSkipSimulation={() => setSkipSimulation(true)}
+                  onAcknowledgeHealthFactor={setHealthFactorAcknowledged}
+                  onRefreshHealthFactor={refreshHealthFactor}
                   onApprove={handleTransactionApprove}
                   onReject={handleTransactionReject}
-                  isLoading={isTxPending}
+                  onRetry={retryTxPlan}
+                  onAbort={handleTransactionAbort}
                 />
               </div>
             </div>
           )}
 
+          {/* Linked transaction */}
+          {linkedTxHash && linkedTxHash !== txHash && (
+            <div className="flex justify-center mb-6 animate-in slide-in-from-bottom duration-500">
+              <div className="w-full max-w-2xl">
+                <TransactionSuccess hash={linkedTxHash} title="Linked transaction" />
+              </div>
+            </div>
+          )}
+
           {/* Transaction Success */}
-          {txHash && !isTxPending && (
+          {txHash && (
             <div className="flex justify-center mb-6 animate-in slide-in-from-bottom duration-500">
               <div className="w-full max-w-2xl">
                 <TransactionSuccess hash={txHash} />
@@ -710,7 +996,7 @@ ${parseFloat(positionData.healthFactor) > 2 ? '✅ Your position is healthy!' :
           )}
 
           {/* Transaction errors */}
-          {isTxError && (
+          {txStatus === 'failed' && (
             <div className="flex justify-center mb-6 animate-in slide-in-from-top duration-300">
               <div className="bg-gradient-to-br from-red-50 via-red-50 to-red-100 dark:from-red-900/20 dark:via-red-900/25 dark:to-red-900/30 border border-red-200 dark:border-red-700/50 rounded-2xl p-6 max-w-2xl w-full shadow-xl">
                 <div className="flex items-center space-x-3 mb-3">
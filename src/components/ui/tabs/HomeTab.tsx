@@ -1,5 +1,7 @@
 "use client";
 
+import { HealthMonitorSettings } from "../HealthMonitorSettings";
+
 /**
  * HomeTab component displays the main landing content for the mini app.
  * 
@@ -28,6 +30,7 @@ export function HomeTab() {
             💬 Click the <strong>Chat</strong> tab below to start your DeFi journey!
           </p>
         </div>
+        <HealthMonitorSettings />
         <p className="text-xs text-gray-500 dark:text-gray-400 mt-4">Powered by Neynar 🪐</p>
       </div>
     </div>
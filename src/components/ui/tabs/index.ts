@@ -1,2 +1,3 @@
 export { HomeTab } from './HomeTab';
-export { ChatTab } from './ChatTab'; 
\ No newline at end of file
+export { ChatTab } from './ChatTab';
+export { ActionsTab } from './ActionsTab'; 
\ No newline at end of file
@@ -2,7 +2,7 @@
 
 import { useCallback, useState } from 'react';
 import { SignIn as SignInCore } from '@farcaster/miniapp-sdk';
-import { useQuickAuth } from '~/hooks/useQuickAuth';
+import { useSession } from '~/hooks/useSession';
 import { Button } from '../Button';
 
 /**
@@ -10,7 +10,7 @@ import { Button } from '../Button';
  *
  * This component provides a complete authentication flow for Farcaster users:
  * - Uses the built-in QuickAuth functionality from the Farcaster SDK
- * - Manages authentication state in memory (no persistence)
+ * - Shares the app-wide session from SessionProvider
  * - Provides sign-out functionality
  * - Displays authentication status and results
  *
@@ -37,7 +37,7 @@ export function SignIn() {
   const [signInFailure, setSignInFailure] = useState<string>();
 
   // --- Hooks ---
-  const { authenticatedUser, status, signIn, signOut } = useQuickAuth();
+  const { session, status, signIn, signOut } = useSession();
 
   // --- Handlers ---
   /**
@@ -103,13 +103,13 @@ export function SignIn() {
       )}
 
       {/* Session Information */}
-      {authenticatedUser && (
+      {session && (
         <div className="my-2 p-2 text-xs overflow-x-scroll bg-gray-100 dark:bg-gray-900 rounded-lg font-mono">
           <div className="font-semibold text-gray-500 dark:text-gray-300 mb-1">
-            Authenticated User
+            Session
           </div>
           <div className="whitespace-pre text-gray-700 dark:text-gray-200">
-            {JSON.stringify(authenticatedUser, null, 2)}
+            {JSON.stringify(session, null, 2)}
           </div>
         </div>
       )}
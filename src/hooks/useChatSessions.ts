@@ -0,0 +1,213 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import type { Address } from "viem";
+import { CHAT_HISTORY_SYNC_ENABLED } from "~/lib/constants";
+import { useSession } from "~/hooks/useSession";
+import { useWalletProof } from "~/hooks/useWalletProof";
+import { WALLET_PROOF_HEADER, encodeWalletProofHeader } from "~/lib/walletProof";
+import {
+  createChatSession,
+  deriveSessionTitle,
+  deserializeChatSessions,
+  getChatSessionsStorageKey,
+  loadChatSessions,
+  mergeChatSessions,
+  pruneChatSessions,
+  saveChatSessions,
+  serializeChatSessions,
+  type ChatSession,
+  type StoredChatSession,
+} from "~/lib/chatSessions";
+
+/** Delay before local changes are pushed to the server */
+const SYNC_DEBOUNCE_MS = 1000;
+
+const WALLET_NOT_VERIFIED_SYNC_ERROR =
+  'Chat history is only saved on this device: this wallet is not verified on your Farcaster account. Sign the wallet proof when sending a message to sync it.';
+
+interface SessionsState {
+  /** Storage key the sessions were loaded from; null when no wallet is connected */
+  key: string | null;
+  sessions: ChatSession[];
+  activeSessionId: string;
+  /** False until server sessions were merged in, so they are never overwritten unseen */
+  hydrated: boolean;
+}
+
+function initialState(key: string | null, hydrated: boolean): SessionsState {
+  const stored = key ? pruneChatSessions(loadChatSessions(key)) : [];
+  const sessions = stored.length > 0 ? stored : [createChatSession()];
+  return { key, sessions, activeSessionId: sessions[0].id, hydrated };
+}
+
+/**
+ * Chat sessions for the connected wallet and Farcaster user.
+ *
+ * Sessions are saved to localStorage under a key derived from the FID and
+ * wallet address, and mirrored to `/api/chat-sessions` when
+ * CHAT_HISTORY_SYNC_ENABLED is set and the user has an FID. Without a
+ * connected wallet a single unsaved session is used.
+ *
+ * Wallets that are not verified on the user's Farcaster account sync with
+ * their stored wallet proof. Without one, server history is not loaded or
+ * overwritten, `syncError` says why, and `retrySync` loads it once a proof
+ * was signed.
+ *
+ * @param address - Connected wallet address
+ * @param fid - Farcaster ID of the current user, if running in a client
+ */
+export function useChatSessions(address?: Address, fid?: number) {
+  const storageKey = address ? getChatSessionsStorageKey(address, fid) : null;
+  const [state, setState] = useState<SessionsState>(() => initialState(null, true));
+  const [syncError, setSyncError] = useState<string | null>(null);
+  const [syncAttempt, setSyncAttempt] = useState(0);
+  const { fetch: authFetch } = useSession();
+  const { getStoredProof } = useWalletProof(fid, address);
+
+  const getProofHeaders = useCallback((): Record<string, string> => {
+    const proof = getStoredProof();
+    return proof ? { [WALLET_PROOF_HEADER]: encodeWalletProofHeader(proof) } : {};
+  }, [getStoredProof]);
+
+  // Load the sessions of the current account whenever it changes
+  useEffect(() => {
+    const shouldSync = Boolean(storageKey && CHAT_HISTORY_SYNC_ENABLED && fid && address);
+    setState(initialState(storageKey, !shouldSync));
+    setSyncError(null);
+    if (!shouldSync) return;
+
+    let cancelled = false;
+    authFetch(`/api/chat-sessions?fid=${fid}&address=${address}`, { headers: getProofHeaders() })
+      .then((response) => {
+        // Not hydrated, so the server history is not overwritten until it was loaded
+        if (response.status === 403) return null;
+        if (!response.ok) throw new Error(`HTTP error! status: ${response.status}`);
+        return response.json() as Promise<{ sessions: StoredChatSession[] }>;
+      })
+      .then((data) => {
+        if (cancelled) return;
+        if (!data) {
+          setSyncError(WALLET_NOT_VERIFIED_SYNC_ERROR);
+          return;
+        }
+        const { sessions } = data;
+        setState((prev) => {
+          if (prev.key !== storageKey) return prev;
+          const merged = mergeChatSessions(prev.sessions, deserializeChatSessions(sessions));
+          const activeSessionId = merged.some((session) => session.id === prev.activeSessionId)
+            ? prev.activeSessionId
+            : merged[0].id;
+          return { ...prev, sessions: merged, activeSessionId, hydrated: true };
+        });
+      })
+      .catch((error) => {
+        console.warn('Failed to load chat sessions from server:', error);
+        if (cancelled) return;
+        setState((prev) => (prev.key === storageKey ? { ...prev, hydrated: true } : prev));
+      });
+
+    return () => {
+      cancelled = true;
+    };
+    // syncAttempt reloads the sessions on retrySync
+  }, [storageKey, fid, address, authFetch, getProofHeaders, syncAttempt]);
+
+  // Persist locally, and to the server when enabled
+  useEffect(() => {
+    if (!state.key) return;
+    saveChatSessions(state.key, state.sessions);
+    if (!CHAT_HISTORY_SYNC_ENABLED || !fid || !address || !state.hydrated) return;
+
+    const timeout = setTimeout(() => {
+      authFetch('/api/chat-sessions', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json', ...getProofHeaders() },
+        body: JSON.stringify({
+          fid,
+          address,
+          sessions: serializeChatSessions(pruneChatSessions(state.sessions)),
+        }),
+      })
+        .then((response) => {
+          // The stored proof may have expired since the sessions were loaded
+          if (response.status === 403) setSyncError(WALLET_NOT_VERIFIED_SYNC_ERROR);
+          else if (!response.ok) throw new Error(`HTTP error! status: ${response.status}`);
+        })
+        .catch((error) => console.warn('Failed to save chat sessions to server:', error));
+    }, SYNC_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [state, fid, address, authFetch, getProofHeaders]);
+
+  const activeSession = useMemo(
+    () => state.sessions.find((session) => session.id === state.activeSessionId) ?? state.sessions[0],
+    [state]
+  );
+
+  /**
+   * Updates one session. Updates that change its messages also bump
+   * `updatedAt` and title the session after its first user message.
+   */
+  const updateSession = useCallback((id: string, update: (session: ChatSession) => ChatSession) => {
+    setState((prev) => ({
+      ...prev,
+      sessions: prev.sessions.map((session) => {
+        if (session.id !== id) return session;
+        const next = update(session);
+        if (next.messages === session.messages) return next;
+        return {
+          ...next,
+          title: deriveSessionTitle(next, next.messages),
+          updatedAt: Date.now(),
+        };
+      }),
+    }));
+  }, []);
+
+  const createSession = useCallback(() => {
+    const session = createChatSession();
+    setState((prev) => ({
+      ...prev,
+      sessions: [session, ...prev.sessions],
+      activeSessionId: session.id,
+    }));
+  }, []);
+
+  const selectSession = useCallback((id: string) => {
+    setState((prev) => ({ ...prev, activeSessionId: id }));
+  }, []);
+
+  const renameSession = useCallback((id: string, title: string) => {
+    const trimmed = title.trim();
+    if (!trimmed) return;
+    setState((prev) => ({
+      ...prev,
+      sessions: prev.sessions.map((session) =>
+        session.id === id ? { ...session, title: trimmed } : session
+      ),
+    }));
+  }, []);
+
+  const deleteSession = useCallback((id: string) => {
+    setState((prev) => {
+      const remaining = prev.sessions.filter((session) => session.id !== id);
+      const sessions = remaining.length > 0 ? remaining : [createChatSession()];
+      const activeSessionId = prev.activeSessionId === id ? sessions[0].id : prev.activeSessionId;
+      return { ...prev, sessions, activeSessionId };
+    });
+  }, []);
+
+  const retrySync = useCallback(() => {
+    setSyncAttempt((attempt) => attempt + 1);
+  }, []);
+
+  return {
+    sessions: state.sessions,
+    activeSession,
+    syncError,
+    retrySync,
+    updateSession,
+    createSession,
+    selectSession,
+    renameSession,
+    deleteSession,
+  };
+}
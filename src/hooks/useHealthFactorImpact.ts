@@ -0,0 +1,80 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import type { TxPlanEntry } from '~/lib/agentSchema';
+import type { HealthFactorProjection, HealthFactorRisk } from '~/lib/healthFactor';
+import { decodeTxStep, getMainTxStep } from '~/lib/txDecoder';
+import { useSession } from '~/hooks/useSession';
+
+/**
+ * Health factor projection state of the pending txPlan
+ */
+export type HealthFactorImpactState =
+  | { status: 'idle' }
+  | { status: 'loading' }
+  /** `projection` is null when the plan's effect cannot be projected */
+  | { status: 'done'; projection: HealthFactorProjection | null }
+  | { status: 'error'; error: string };
+
+/**
+ * Borrowing and withdrawing can lower the health factor; other plans cannot.
+ */
+function canLowerHealthFactor(txPlan: TxPlanEntry[]): boolean {
+  const action = getMainTxStep(txPlan.map(decodeTxStep))?.action;
+  return action === 'borrow' || action === 'withdraw';
+}
+
+/**
+ * Projects the Aave health factor after a txPlan through
+ * `/api/health-factor-impact` whenever the plan or account changes.
+ *
+ * @param txPlan - Plan to project; nothing runs while undefined
+ * @param account - Wallet whose position the plan changes
+ * @returns The projection state, the plan's risk, and a function to fetch
+ *   it again. Borrow and withdraw plans without a projection (still loading,
+ *   failed, or not projectable like a full withdrawal) are at least a
+ *   `warning`, so they are never signed unchecked.
+ */
+export function useHealthFactorImpact(txPlan?: TxPlanEntry[], account?: string) {
+  const [state, setState] = useState<HealthFactorImpactState>({ status: 'idle' });
+  const [attempt, setAttempt] = useState(0);
+  const { fetch: authFetch } = useSession();
+
+  useEffect(() => {
+    if (!txPlan || !account) {
+      setState({ status: 'idle' });
+      return;
+    }
+
+    let cancelled = false;
+    setState({ status: 'loading' });
+
+    authFetch('/api/health-factor-impact', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ txPlan, account }),
+    })
+      .then(async (response) => {
+        const data = await response.json();
+        if (!response.ok) throw new Error(data.error || `HTTP error! status: ${response.status}`);
+        if (!cancelled) setState({ status: 'done', projection: data.projection });
+      })
+      .catch((error) => {
+        console.error('Health factor projection failed:', error);
+        if (!cancelled) setState({ status: 'error', error: error.message });
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [txPlan, account, attempt, authFetch]);
+
+  const refresh = useCallback(() => setAttempt((prev) => prev + 1), []);
+
+  const risk = useMemo((): HealthFactorRisk => {
+    if (state.status === 'done' && state.projection) return state.projection.risk;
+    return txPlan && canLowerHealthFactor(txPlan) ? 'warning' : 'safe';
+  }, [state, txPlan]);
+
+  return { state, risk, refresh };
+}
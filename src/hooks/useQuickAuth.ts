@@ -1,14 +1,31 @@
 'use client';
 
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
 import { sdk } from '@farcaster/miniapp-sdk';
+import { decodeJwt } from '@farcaster/quick-auth/decodeJwt';
+import { APP_NAME } from '~/lib/constants';
+import { getItem, removeItem, setItem } from '~/lib/localStorage';
+
+/** localStorage key of the persisted token */
+const QUICK_AUTH_TOKEN_KEY = `${APP_NAME}:quick-auth-token`;
+
+/** Tokens are refreshed this long before they expire, so requests never carry an expiring one */
+const REFRESH_MARGIN_MS = 60 * 1000;
 
 /**
  * Represents the current authenticated user state
  */
 interface AuthenticatedUser {
-  /** The user's Farcaster ID (FID) */
-  fid: number;
+  /** The user's Farcaster ID (FID), as the token's `sub` claim string */
+  fid: string;
+}
+
+/**
+ * A QuickAuth token and when it expires, in milliseconds since the epoch
+ */
+interface StoredToken {
+  token: string;
+  expiresAt: number;
 }
 
 /**
@@ -16,6 +33,14 @@ interface AuthenticatedUser {
  */
 type QuickAuthStatus = 'loading' | 'authenticated' | 'unauthenticated';
 
+/**
+ * Options for the useQuickAuth hook
+ */
+interface UseQuickAuthOptions {
+  /** Keep the token in localStorage until it expires, so reloads skip the handshake */
+  persist?: boolean;
+}
+
 /**
  * Return type for the useQuickAuth hook
  */
@@ -32,18 +57,49 @@ interface UseQuickAuthReturn {
   getToken: () => Promise<string | null>;
 }
 
+/**
+ * Validates a QuickAuth token with the server-side API
+ *
+ * @param {string} authToken - The JWT token to validate
+ * @returns {Promise<AuthenticatedUser | null>} User data if valid, null otherwise
+ */
+async function validateTokenWithServer(
+  authToken: string,
+): Promise<AuthenticatedUser | null> {
+  try {
+    const validationResponse = await fetch('/api/auth/validate', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ token: authToken }),
+    });
+
+    if (validationResponse.ok) {
+      const responseData = await validationResponse.json();
+      return responseData.user;
+    }
+
+    return null;
+  } catch (error) {
+    console.error('Token validation failed:', error);
+    return null;
+  }
+}
+
 /**
  * Custom hook for managing QuickAuth authentication state
  *
  * This hook provides a complete authentication flow using Farcaster's QuickAuth:
  * - Automatically checks for existing authentication on mount
  * - Validates tokens with the server-side API
- * - Manages authentication state in memory (no persistence)
+ * - Keeps the token in memory, or in localStorage with `persist`
+ * - Silently refreshes the token shortly before it expires
  * - Provides sign-in/sign-out functionality
  *
- * QuickAuth tokens are managed in memory only, so signing out of the Farcaster
- * client will automatically sign the user out of this mini app as well.
+ * Without `persist`, signing out of the Farcaster client will automatically
+ * sign the user out of this mini app as well. With it, a saved token stays
+ * valid until it expires or the user signs out here.
  *
+ * @param {UseQuickAuthOptions} options - Whether to persist the token
  * @returns {UseQuickAuthReturn} Object containing user state and authentication methods
  *
  * @example
@@ -61,40 +117,58 @@ interface UseQuickAuthReturn {
  * );
  * ```
  */
-export function useQuickAuth(): UseQuickAuthReturn {
+export function useQuickAuth({ persist = false }: UseQuickAuthOptions = {}): UseQuickAuthReturn {
   // Current authenticated user data
   const [authenticatedUser, setAuthenticatedUser] =
     useState<AuthenticatedUser | null>(null);
   // Current authentication status
   const [status, setStatus] = useState<QuickAuthStatus>('loading');
+  // Expiry of the current token, which schedules the silent refresh
+  const [expiresAt, setExpiresAt] = useState<number | null>(null);
+  // Current token, read by getToken without re-creating it on every refresh
+  const tokenRef = useRef<StoredToken | null>(null);
 
   /**
-   * Validates a QuickAuth token with the server-side API
+   * Keeps a token in memory, and in localStorage with `persist`
    *
-   * @param {string} authToken - The JWT token to validate
-   * @returns {Promise<AuthenticatedUser | null>} User data if valid, null otherwise
+   * @param {string} token - The JWT token to keep
    */
-  const validateTokenWithServer = async (
-    authToken: string,
-  ): Promise<AuthenticatedUser | null> => {
-    try {
-      const validationResponse = await fetch('/api/auth/validate', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ token: authToken }),
-      });
-
-      if (validationResponse.ok) {
-        const responseData = await validationResponse.json();
-        return responseData.user;
-      }
+  const saveToken = useCallback((token: string) => {
+    const stored = { token, expiresAt: decodeJwt(token).exp * 1000 };
+    tokenRef.current = stored;
+    if (persist) {
+      setItem(QUICK_AUTH_TOKEN_KEY, stored);
+    }
+    setExpiresAt(stored.expiresAt);
+  }, [persist]);
 
-      return null;
-    } catch (error) {
-      console.error('Token validation failed:', error);
-      return null;
+  /**
+   * Forgets the current token and clears the authentication state
+   */
+  const clearToken = useCallback(() => {
+    tokenRef.current = null;
+    removeItem(QUICK_AUTH_TOKEN_KEY);
+    setExpiresAt(null);
+    setAuthenticatedUser(null);
+    setStatus('unauthenticated');
+  }, []);
+
+  /**
+   * Validates a token with the server and, if valid, signs the user in with it
+   *
+   * @param {string} token - The JWT token to sign in with
+   * @returns {Promise<boolean>} True if the token was valid, false otherwise
+   */
+  const authenticate = useCallback(async (token: string): Promise<boolean> => {
+    const validatedUserSession = await validateTokenWithServer(token);
+    if (!validatedUserSession) {
+      return false;
     }
-  };
+    saveToken(token);
+    setAuthenticatedUser(validatedUserSession);
+    setStatus('authenticated');
+    return true;
+  }, [saveToken]);
 
   /**
    * Checks for existing authentication token and validates it on component mount
@@ -103,33 +177,52 @@ export function useQuickAuth(): UseQuickAuthReturn {
   useEffect(() => {
     const checkExistingAuthentication = async () => {
       try {
+        // A persisted token that is not about to expire skips the handshake
+        const stored = persist ? getItem<StoredToken>(QUICK_AUTH_TOKEN_KEY) : null;
+        if (stored && stored.expiresAt - REFRESH_MARGIN_MS > Date.now() && await authenticate(stored.token)) {
+          return;
+        }
+        removeItem(QUICK_AUTH_TOKEN_KEY);
+
         // Attempt to retrieve existing token from QuickAuth SDK
         const { token } = await sdk.quickAuth.getToken();
 
-        if (token) {
-          // Validate the token with our server-side API
-          const validatedUserSession = await validateTokenWithServer(token);
-
-          if (validatedUserSession) {
-            // Token is valid, set authenticated state
-            setAuthenticatedUser(validatedUserSession);
-            setStatus('authenticated');
-          } else {
-            // Token is invalid or expired, clear authentication state
-            setStatus('unauthenticated');
-          }
-        } else {
-          // No existing token found, user is not authenticated
-          setStatus('unauthenticated');
+        // Validate the token with our server-side API; a missing, invalid or
+        // expired token leaves the user signed out
+        if (!token || !(await authenticate(token))) {
+          clearToken();
         }
       } catch (error) {
         console.error('Error checking existing authentication:', error);
-        setStatus('unauthenticated');
+        clearToken();
       }
     };
 
     checkExistingAuthentication();
-  }, []);
+  }, [persist, authenticate, clearToken]);
+
+  /**
+   * Silently replaces the token shortly before it expires
+   *
+   * The SDK would return the same token until its last seconds, so a new one
+   * is forced. If the refresh fails, the user is signed out.
+   */
+  useEffect(() => {
+    if (!expiresAt) return;
+
+    const timeout = setTimeout(async () => {
+      try {
+        // The SDK types `force` as a string
+        const { token } = await sdk.quickAuth.getToken({ force: 'true' });
+        if (await authenticate(token)) return;
+      } catch (error) {
+        console.error('Silent token refresh failed:', error);
+      }
+      clearToken();
+    }, Math.max(expiresAt - REFRESH_MARGIN_MS - Date.now(), 0));
+
+    return () => clearTimeout(timeout);
+  }, [expiresAt, authenticate, clearToken]);
 
   /**
    * Initiates the QuickAuth sign-in process
@@ -147,55 +240,56 @@ export function useQuickAuth(): UseQuickAuthReturn {
       // Get QuickAuth session token
       const { token } = await sdk.quickAuth.getToken();
 
-      if (token) {
-        // Validate the token with our server-side API
-        const validatedUserSession = await validateTokenWithServer(token);
-
-        if (validatedUserSession) {
-          // Authentication successful, update user state
-          setAuthenticatedUser(validatedUserSession);
-          setStatus('authenticated');
-          return true;
-        }
+      // Validate the token with our server-side API
+      if (token && await authenticate(token)) {
+        return true;
       }
 
       // Authentication failed, clear user state
-      setStatus('unauthenticated');
+      clearToken();
       return false;
     } catch (error) {
       console.error('Sign-in process failed:', error);
-      setStatus('unauthenticated');
+      clearToken();
       return false;
     }
-  }, []);
+  }, [authenticate, clearToken]);
 
   /**
    * Signs out the current user and clears the authentication state
    *
-   * Since QuickAuth tokens are managed in memory only, this simply clears
-   * the local user state. The actual token will be cleared when the
-   * user signs out of their Farcaster client.
+   * This clears the local user state and any persisted token. The SDK's
+   * in-memory token will be cleared when the user signs out of their
+   * Farcaster client.
    */
   const signOut = useCallback(async (): Promise<void> => {
-    // Clear local user state
-    setAuthenticatedUser(null);
-    setStatus('unauthenticated');
-  }, []);
+    clearToken();
+  }, [clearToken]);
 
   /**
-   * Retrieves the current authentication token from QuickAuth
+   * Retrieves the current authentication token
+   *
+   * Returns the kept token unless it is about to expire, in which case a new
+   * one is acquired from QuickAuth.
    *
    * @returns {Promise<string | null>} The current auth token, or null if not authenticated
    */
   const getToken = useCallback(async (): Promise<string | null> => {
+    const current = tokenRef.current;
+    if (current && current.expiresAt - REFRESH_MARGIN_MS > Date.now()) {
+      return current.token;
+    }
+
     try {
-      const { token } = await sdk.quickAuth.getToken();
+      // Only force a new token when the SDK's in-memory one is the expiring one
+      const { token } = await sdk.quickAuth.getToken(current ? { force: 'true' } : undefined);
+      saveToken(token);
       return token;
     } catch (error) {
       console.error('Failed to retrieve authentication token:', error);
       return null;
     }
-  }, []);
+  }, [saveToken]);
 
   return {
     authenticatedUser,
@@ -204,4 +298,4 @@ export function useQuickAuth(): UseQuickAuthReturn {
     signOut,
     getToken,
   };
-}
\ No newline at end of file
+}
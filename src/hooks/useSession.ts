@@ -0,0 +1,22 @@
+'use client';
+
+import { useContext } from 'react';
+import { SessionContext, type SessionContextValue } from '~/components/providers/SessionProvider';
+
+/**
+ * The current user's session and an authenticated `fetch` for the app's API
+ * routes, from the SessionProvider.
+ *
+ * @example
+ * ```tsx
+ * const { session, fetch } = useSession();
+ * await fetch('/api/health-monitor', { method: 'PUT', body });
+ * ```
+ */
+export function useSession(): SessionContextValue {
+  const value = useContext(SessionContext);
+  if (!value) {
+    throw new Error('useSession must be used within a SessionProvider');
+  }
+  return value;
+}
@@ -0,0 +1,88 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import type { Address } from 'viem';
+import { useSignMessage } from 'wagmi';
+import { arbitrum } from 'wagmi/chains';
+import { createSiweMessage } from 'viem/siwe';
+import { APP_NAME } from '~/lib/constants';
+import type { PublicSiweSession } from '~/lib/siwe';
+
+type SiweSessionStatus = 'loading' | 'authenticated' | 'unauthenticated';
+
+/**
+ * Sign-In with Ethereum session for users outside Farcaster.
+ *
+ * The session lives in an HTTP-only cookie set by `/api/auth/siwe/verify`,
+ * so plain `fetch` calls to the app's API routes carry it.
+ *
+ * @returns The session, its status, and functions to sign in with a wallet,
+ *   sign out and reload the session
+ */
+export function useSiweSession() {
+  const [session, setSession] = useState<PublicSiweSession | null>(null);
+  const [status, setStatus] = useState<SiweSessionStatus>('loading');
+  const { signMessageAsync } = useSignMessage();
+
+  const refresh = useCallback(async () => {
+    try {
+      const response = await fetch('/api/auth/siwe/session');
+      const data = await response.json();
+      setSession(data.session ?? null);
+      setStatus(data.session ? 'authenticated' : 'unauthenticated');
+    } catch (error) {
+      console.error('Failed to load SIWE session:', error);
+      setSession(null);
+      setStatus('unauthenticated');
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const signIn = useCallback(async (address: Address): Promise<PublicSiweSession> => {
+    const nonceResponse = await fetch('/api/auth/nonce');
+    const { nonce } = await nonceResponse.json();
+    if (!nonce) {
+      throw new Error('Failed to fetch nonce');
+    }
+
+    const message = createSiweMessage({
+      domain: window.location.hostname,
+      address,
+      uri: window.location.origin,
+      version: '1',
+      chainId: arbitrum.id,
+      nonce,
+      statement: `Sign in to ${APP_NAME}.`,
+      issuedAt: new Date(),
+    });
+    const signature = await signMessageAsync({ account: address, message });
+
+    const response = await fetch('/api/auth/siwe/verify', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ message, signature }),
+    });
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.error || `HTTP error! status: ${response.status}`);
+    }
+
+    setSession(data.session);
+    setStatus('authenticated');
+    return data.session;
+  }, [signMessageAsync]);
+
+  const signOut = useCallback(async () => {
+    try {
+      await fetch('/api/auth/siwe/session', { method: 'DELETE' });
+    } finally {
+      setSession(null);
+      setStatus('unauthenticated');
+    }
+  }, []);
+
+  return { session, status, signIn, signOut, refresh };
+}
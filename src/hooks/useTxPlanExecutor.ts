@@ -0,0 +1,394 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useCapabilities, useConfig } from 'wagmi';
+import {
+  getChainId,
+  sendCalls,
+  sendTransaction,
+  switchChain,
+  waitForCallsStatus,
+  waitForTransactionReceipt,
+} from 'wagmi/actions';
+import {
+  AtomicityNotSupportedError,
+  BaseError,
+  MethodNotFoundRpcError,
+  MethodNotSupportedRpcError,
+  UnsupportedNonOptionalCapabilityError,
+  UnsupportedProviderMethodError,
+  type Hex,
+} from 'viem';
+import type { TxPlanEntry } from '~/lib/agentSchema';
+import { decodeTxStep, getTxStepLabel, type DecodedTxStep } from '~/lib/txDecoder';
+
+/**
+ * Lifecycle of a single txPlan step
+ */
+export type TxStepStatus =
+  | 'pending'
+  | 'switching-chain'
+  | 'signing'
+  | 'confirming'
+  | 'confirmed'
+  | 'failed';
+
+/**
+ * Lifecycle of a whole txPlan
+ */
+export type TxPlanStatus = 'idle' | 'running' | 'completed' | 'failed' | 'aborted';
+
+/**
+ * How the plan is sent: one EIP-5792 call batch, or one transaction per step
+ */
+export type TxPlanMode = 'batch' | 'sequential';
+
+/**
+ * A txPlan entry together with its decoded call and execution state
+ */
+export interface TxStep {
+  entry: TxPlanEntry;
+  decoded: DecodedTxStep;
+  /** Human-readable label, e.g. "Approve USDC" */
+  label: string;
+  chainId: number;
+  status: TxStepStatus;
+  hash?: Hex;
+  error?: unknown;
+}
+
+/**
+ * Optional callbacks fired as the plan progresses
+ */
+export interface TxPlanExecutorCallbacks {
+  onStepSubmitted?: (step: TxStep, index: number, total: number) => void;
+  onStepConfirmed?: (step: TxStep, index: number, total: number) => void;
+  /** Fired instead of `onStepSubmitted` when the steps are sent as one batch */
+  onBatchSubmitted?: (steps: TxStep[], batchId: string) => void;
+  onCompleted?: (steps: TxStep[]) => void;
+  onFailed?: (step: TxStep, error: unknown) => void;
+}
+
+/**
+ * Return type for the useTxPlanExecutor hook
+ */
+interface UseTxPlanExecutorResult {
+  /** Steps of the plan being executed, empty when idle */
+  steps: TxStep[];
+  status: TxPlanStatus;
+  /** How the current run is sent, null when idle */
+  mode: TxPlanMode | null;
+  /** Index of the step being executed or that failed, -1 when none */
+  currentStepIndex: number;
+  /** Error of the failed step */
+  error: unknown;
+  /** Starts executing a plan from its first step */
+  execute: (plan: TxPlanEntry[]) => Promise<void>;
+  /** Resumes a failed or aborted plan from its first unconfirmed step */
+  retry: () => Promise<void>;
+  /** Stops the plan before its next step; a step already sent to the wallet still completes */
+  abort: () => void;
+  /** Forgets the current plan; ignored while a step is in flight, use `abort` then */
+  reset: () => void;
+  /** Whether the connected wallet can send the plan as one atomic batch */
+  canBatch: (plan: TxPlanEntry[]) => boolean;
+}
+
+/**
+ * `sendCalls` with its parameters spelled out: inferring wagmi's generic
+ * types exceeds the compiler's instantiation depth under this tsconfig.
+ */
+const sendPlanCalls = sendCalls as unknown as (
+  config: ReturnType<typeof useConfig>,
+  parameters: {
+    calls: { to: `0x${string}`; data: Hex; value: bigint }[];
+    chainId: number;
+    forceAtomic: boolean;
+  }
+) => Promise<{ id: string }>;
+
+/** Time allowed for a batch to be included before it counts as failed */
+const BATCH_STATUS_TIMEOUT_MS = 5 * 60_000;
+
+/**
+ * Reads atomic batching support from a wallet's capabilities for one chain.
+ * Wallets implementing the earlier EIP-5792 draft report `atomicBatch`.
+ */
+function supportsAtomicBatch(capabilities: Record<string, unknown> | undefined): boolean {
+  const { atomic, atomicBatch } = (capabilities ?? {}) as {
+    atomic?: { status?: string };
+    atomicBatch?: { supported?: boolean };
+  };
+  return atomic?.status === 'supported' || atomic?.status === 'ready' || atomicBatch?.supported === true;
+}
+
+/**
+ * Whether a `wallet_sendCalls` error means the wallet cannot batch at all,
+ * as opposed to the user rejecting or the batch failing.
+ */
+function isBatchingUnsupported(error: unknown): boolean {
+  if (!(error instanceof BaseError)) return false;
+  return Boolean(
+    error.walk(
+      (e) =>
+        e instanceof MethodNotFoundRpcError ||
+        e instanceof MethodNotSupportedRpcError ||
+        e instanceof UnsupportedProviderMethodError ||
+        e instanceof UnsupportedNonOptionalCapabilityError ||
+        e instanceof AtomicityNotSupportedError
+    )
+  );
+}
+
+/**
+ * Decodes and labels a txPlan entry as a pending step
+ */
+export function createTxStep(entry: TxPlanEntry): TxStep {
+  const decoded = decodeTxStep(entry);
+  return {
+    entry,
+    decoded,
+    label: getTxStepLabel(decoded),
+    chainId: Number(entry.chainId),
+    status: 'pending',
+  };
+}
+
+/**
+ * Executes an agent txPlan.
+ *
+ * When the wallet reports atomic batching for the plan's chain (EIP-5792
+ * `wallet_getCapabilities`), the remaining steps are sent as one
+ * `wallet_sendCalls` batch, so the user confirms once, and tracked through
+ * `wallet_getCallsStatus`. Otherwise, or if the wallet turns out not to
+ * support the call, each step is sent on its own: the hook switches the
+ * wallet to the step's chain if needed, sends the transaction and waits for
+ * its receipt before moving on, so a supply is only sent once its approval is
+ * mined. Reverted receipts fail the plan. Failed or aborted plans can be
+ * resumed with `retry`, which skips the steps that were already confirmed.
+ *
+ * @param callbacks - Optional progress callbacks, e.g. to post chat messages
+ *
+ * @example
+ * ```tsx
+ * const { steps, status, execute, retry, abort } = useTxPlanExecutor({
+ *   onCompleted: () => console.log('All steps confirmed'),
+ * });
+ *
+ * <button onClick={() => execute(txPlan)}>Approve & Sign</button>
+ * ```
+ */
+export function useTxPlanExecutor(callbacks: TxPlanExecutorCallbacks = {}): UseTxPlanExecutorResult {
+  const config = useConfig();
+  const { data: capabilities } = useCapabilities();
+  const [steps, setSteps] = useState<TxStep[]>([]);
+  const [status, setStatus] = useState<TxPlanStatus>('idle');
+  const [mode, setMode] = useState<TxPlanMode | null>(null);
+  const [currentStepIndex, setCurrentStepIndex] = useState(-1);
+  const [error, setError] = useState<unknown>(null);
+
+  // Refs keep the async loop independent of re-renders
+  const stepsRef = useRef<TxStep[]>([]);
+  const abortRef = useRef(false);
+  const runningRef = useRef(false);
+  const callbacksRef = useRef(callbacks);
+
+  useEffect(() => {
+    callbacksRef.current = callbacks;
+  }, [callbacks]);
+
+  const updateStep = useCallback((index: number, update: Partial<TxStep>) => {
+    stepsRef.current = stepsRef.current.map((step, i) =>
+      i === index ? { ...step, ...update } : step
+    );
+    setSteps(stepsRef.current);
+  }, []);
+
+  const canBatch = useCallback((plan: TxPlanEntry[]) => {
+    if (plan.length < 2) return false;
+    const chainId = Number(plan[0].chainId);
+    if (plan.some((entry) => Number(entry.chainId) !== chainId)) return false;
+    return supportsAtomicBatch(capabilities?.[chainId]);
+  }, [capabilities]);
+
+  const updateSteps = useCallback((indexes: number[], update: Partial<TxStep>) => {
+    stepsRef.current = stepsRef.current.map((step, i) =>
+      indexes.includes(i) ? { ...step, ...update } : step
+    );
+    setSteps(stepsRef.current);
+  }, []);
+
+  /**
+   * Sends the given steps as one atomic batch. Resolves to 'unsupported',
+   * with the steps back to pending, when the wallet rejects `wallet_sendCalls`
+   * so the caller can fall back to sequential sends.
+   */
+  const runBatch = useCallback(async (indexes: number[]): Promise<'confirmed' | 'failed' | 'unsupported'> => {
+    const { chainId } = stepsRef.current[indexes[0]];
+    setCurrentStepIndex(indexes[0]);
+
+    try {
+      if (getChainId(config) !== chainId) {
+        updateSteps(indexes, { status: 'switching-chain', error: undefined });
+        await switchChain(config, { chainId });
+      }
+
+      updateSteps(indexes, { status: 'signing', error: undefined });
+      let batchId: string;
+      try {
+        ({ id: batchId } = await sendPlanCalls(config, {
+          calls: indexes.map((index) => {
+            const { entry } = stepsRef.current[index];
+            return {
+              to: entry.to as `0x${string}`,
+              data: entry.data as Hex,
+              value: BigInt(entry.value || '0'),
+            };
+          }),
+          chainId,
+          forceAtomic: true,
+        }));
+      } catch (sendError) {
+        if (!isBatchingUnsupported(sendError)) throw sendError;
+        console.warn('Wallet cannot batch calls, sending steps one by one:', sendError);
+        updateSteps(indexes, { status: 'pending' });
+        return 'unsupported';
+      }
+
+      updateSteps(indexes, { status: 'confirming' });
+      callbacksRef.current.onBatchSubmitted?.(indexes.map((index) => stepsRef.current[index]), batchId);
+
+      const { status: batchStatus, receipts = [] } = await waitForCallsStatus(config, {
+        id: batchId,
+        timeout: BATCH_STATUS_TIMEOUT_MS,
+      });
+      // Atomic batches may be included as a single transaction with one receipt
+      indexes.forEach((index, i) => {
+        const receipt = receipts[i] ?? receipts[receipts.length - 1];
+        if (receipt) updateStep(index, { hash: receipt.transactionHash });
+      });
+      if (batchStatus !== 'success') {
+        throw new Error(
+          batchStatus === 'pending' ? 'Batch is still pending, check your wallet' : 'Batched transaction reverted'
+        );
+      }
+
+      updateSteps(indexes, { status: 'confirmed' });
+      return 'confirmed';
+    } catch (batchError) {
+      console.error('Transaction batch failed:', batchError);
+      updateSteps(indexes, { status: 'failed', error: batchError });
+      setError(batchError);
+      setStatus('failed');
+      callbacksRef.current.onFailed?.(stepsRef.current[indexes[0]], batchError);
+      return 'failed';
+    }
+  }, [config, updateStep, updateSteps]);
+
+  const run = useCallback(async (startIndex: number) => {
+    if (runningRef.current) return;
+    runningRef.current = true;
+    abortRef.current = false;
+    setStatus('running');
+    setError(null);
+
+    const total = stepsRef.current.length;
+    try {
+      const remaining = stepsRef.current
+        .map((_, index) => index)
+        .filter((index) => index >= startIndex && stepsRef.current[index].status !== 'confirmed');
+
+      if (canBatch(remaining.map((index) => stepsRef.current[index].entry))) {
+        setMode('batch');
+        const outcome = await runBatch(remaining);
+        if (outcome === 'failed') return;
+        if (outcome === 'confirmed') {
+          setCurrentStepIndex(-1);
+          setStatus('completed');
+          callbacksRef.current.onCompleted?.(stepsRef.current);
+          return;
+        }
+      }
+
+      setMode('sequential');
+      for (let index = startIndex; index < total; index++) {
+        if (abortRef.current) {
+          setStatus('aborted');
+          return;
+        }
+        if (stepsRef.current[index].status === 'confirmed') continue;
+
+        setCurrentStepIndex(index);
+        const { entry, chainId, label } = stepsRef.current[index];
+
+        try {
+          if (getChainId(config) !== chainId) {
+            updateStep(index, { status: 'switching-chain', error: undefined });
+            await switchChain(config, { chainId });
+          }
+
+          updateStep(index, { status: 'signing', error: undefined });
+          const hash = await sendTransaction(config, {
+            to: entry.to as `0x${string}`,
+            data: entry.data as Hex,
+            value: BigInt(entry.value || '0'),
+            chainId,
+          });
+
+          updateStep(index, { status: 'confirming', hash });
+          callbacksRef.current.onStepSubmitted?.(stepsRef.current[index], index, total);
+
+          const receipt = await waitForTransactionReceipt(config, { hash, chainId });
+          if (receipt.status === 'reverted') {
+            throw new Error(`${label} transaction reverted`);
+          }
+
+          updateStep(index, { status: 'confirmed' });
+          callbacksRef.current.onStepConfirmed?.(stepsRef.current[index], index, total);
+        } catch (stepError) {
+          console.error(`Transaction step ${index + 1} failed:`, stepError);
+          updateStep(index, { status: 'failed', error: stepError });
+          setError(stepError);
+          setStatus('failed');
+          callbacksRef.current.onFailed?.(stepsRef.current[index], stepError);
+          return;
+        }
+      }
+
+      setCurrentStepIndex(-1);
+      setStatus('completed');
+      callbacksRef.current.onCompleted?.(stepsRef.current);
+    } finally {
+      runningRef.current = false;
+    }
+  }, [canBatch, config, runBatch, updateStep]);
+
+  const execute = useCallback(async (plan: TxPlanEntry[]) => {
+    if (runningRef.current) return;
+    stepsRef.current = plan.map(createTxStep);
+    setSteps(stepsRef.current);
+    await run(0);
+  }, [run]);
+
+  const retry = useCallback(async () => {
+    const index = stepsRef.current.findIndex((step) => step.status !== 'confirmed');
+    if (index === -1) return;
+    await run(index);
+  }, [run]);
+
+  const abort = useCallback(() => {
+    abortRef.current = true;
+  }, []);
+
+  const reset = useCallback(() => {
+    if (runningRef.current) return;
+    stepsRef.current = [];
+    setSteps([]);
+    setStatus('idle');
+    setMode(null);
+    setCurrentStepIndex(-1);
+    setError(null);
+  }, []);
+
+  return { steps, status, mode, currentStepIndex, error, execute, retry, abort, reset, canBatch };
+}
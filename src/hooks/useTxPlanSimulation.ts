@@ -0,0 +1,64 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import type { TxPlanEntry } from '~/lib/agentSchema';
+import type { TxPlanSimulation } from '~/lib/txSimulation';
+import { useSession } from '~/hooks/useSession';
+
+/**
+ * Simulation state of the pending txPlan
+ */
+export type TxPlanSimulationState =
+  | { status: 'idle' }
+  | { status: 'loading' }
+  /** The simulation ran; `simulation.success` tells whether the plan would succeed */
+  | { status: 'done'; simulation: TxPlanSimulation }
+  /** The simulation itself could not run (RPC or network failure) */
+  | { status: 'error'; error: string };
+
+/**
+ * Simulates a txPlan through `/api/simulate-tx-plan` whenever the plan or
+ * account changes.
+ *
+ * @param txPlan - Plan to simulate; nothing runs while undefined
+ * @param account - Wallet the plan would be sent from
+ * @returns The simulation state and a function to run it again
+ */
+export function useTxPlanSimulation(txPlan?: TxPlanEntry[], account?: string) {
+  const [state, setState] = useState<TxPlanSimulationState>({ status: 'idle' });
+  const [attempt, setAttempt] = useState(0);
+  const { fetch: authFetch } = useSession();
+
+  useEffect(() => {
+    if (!txPlan || !account) {
+      setState({ status: 'idle' });
+      return;
+    }
+
+    let cancelled = false;
+    setState({ status: 'loading' });
+
+    authFetch('/api/simulate-tx-plan', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ txPlan, account }),
+    })
+      .then(async (response) => {
+        const data = await response.json();
+        if (!response.ok) throw new Error(data.error || `HTTP error! status: ${response.status}`);
+        if (!cancelled) setState({ status: 'done', simulation: data });
+      })
+      .catch((error) => {
+        console.error('Transaction simulation failed:', error);
+        if (!cancelled) setState({ status: 'error', error: error.message });
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [txPlan, account, attempt, authFetch]);
+
+  const rerun = useCallback(() => setAttempt((prev) => prev + 1), []);
+
+  return { state, rerun };
+}
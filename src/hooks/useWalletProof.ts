@@ -0,0 +1,66 @@
+'use client';
+
+import { useCallback } from 'react';
+import type { Address } from 'viem';
+import { useSignMessage } from 'wagmi';
+import { APP_NAME } from '~/lib/constants';
+import { getItem, removeItem, setItem } from '~/lib/localStorage';
+import {
+  createWalletProofMessage,
+  getWalletProofExpiry,
+  type WalletProof,
+} from '~/lib/walletProof';
+
+/** Proofs are not reused in their last minutes, so a request never carries an expiring one */
+const EXPIRY_MARGIN_MS = 5 * 60 * 1000;
+
+function getWalletProofKey(fid: number, address: Address): string {
+  return `${APP_NAME}:wallet-proof:${fid}:${address.toLowerCase()}`;
+}
+
+/**
+ * Wallet proofs for the connected wallet, which the lending agent requires
+ * when the wallet is not a verified address of the user's Farcaster account.
+ *
+ * Signed proofs are kept in localStorage until shortly before they expire.
+ *
+ * @param fid - The signed-in user's FID
+ * @param address - The connected wallet
+ * @returns `getStoredProof` for a saved, unexpired proof, and `signProof`
+ *   to ask the wallet for a new one
+ */
+export function useWalletProof(fid?: number, address?: Address) {
+  const { signMessageAsync } = useSignMessage();
+
+  const getStoredProof = useCallback((): WalletProof | undefined => {
+    if (!fid || !address) return undefined;
+    const key = getWalletProofKey(fid, address);
+    const proof = getItem<WalletProof>(key);
+    if (!proof) return undefined;
+
+    const expiry = getWalletProofExpiry(proof);
+    if (!expiry || expiry - EXPIRY_MARGIN_MS < Date.now()) {
+      removeItem(key);
+      return undefined;
+    }
+    return proof;
+  }, [fid, address]);
+
+  const signProof = useCallback(async (): Promise<WalletProof> => {
+    if (!fid || !address) {
+      throw new Error('Sign in and connect a wallet first');
+    }
+    const message = createWalletProofMessage({
+      fid,
+      address,
+      domain: window.location.hostname,
+      uri: window.location.origin,
+    });
+    const signature = await signMessageAsync({ account: address, message });
+    const proof = { message, signature };
+    setItem(getWalletProofKey(fid, address), proof);
+    return proof;
+  }, [fid, address, signMessageAsync]);
+
+  return { getStoredProof, signProof };
+}
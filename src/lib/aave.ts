@@ -0,0 +1,60 @@
+import { parseAbi } from 'viem';
+
+/**
+ * Aave V3 contract addresses and ABIs on Arbitrum One
+ */
+
+export const AAVE_V3_POOL_ADDRESS = '0x794a61358D6845594F94dc1DB02A252b5b4814aD' as const;
+
+/**
+ * Interest rate mode used by Aave V3 for variable-rate debt
+ */
+export const VARIABLE_INTEREST_RATE_MODE = 2n;
+
+export const aavePoolAbi = parseAbi([
+  'function supply(address asset, uint256 amount, address onBehalfOf, uint16 referralCode)',
+  'function borrow(address asset, uint256 amount, uint256 interestRateMode, uint16 referralCode, address onBehalfOf)',
+  'function repay(address asset, uint256 amount, uint256 interestRateMode, address onBehalfOf) returns (uint256)',
+  'function withdraw(address asset, uint256 amount, address to) returns (uint256)',
+]);
+
+/**
+ * WrappedTokenGatewayV3, used to supply, borrow, repay and withdraw native ETH
+ */
+export const AAVE_V3_WETH_GATEWAY_ADDRESS = '0x5283BEcEd7ADF6D003225C13896E536f2D4264FF' as const;
+
+/**
+ * Gateway functions; both the 3.0 signatures (with interest rate mode) and the
+ * current ones are listed since deployments differ
+ */
+export const aaveWethGatewayAbi = parseAbi([
+  'function depositETH(address pool, address onBehalfOf, uint16 referralCode) payable',
+  'function withdrawETH(address pool, uint256 amount, address to)',
+  'function borrowETH(address pool, uint256 amount, uint256 interestRateMode, uint16 referralCode)',
+  'function borrowETH(address pool, uint256 amount, uint16 referralCode)',
+  'function repayETH(address pool, uint256 amount, uint256 rateMode, address onBehalfOf) payable',
+  'function repayETH(address pool, uint256 amount, address onBehalfOf) payable',
+]);
+
+/**
+ * Read-only Pool functions, kept apart from `aavePoolAbi` so calldata
+ * decoding only matches user actions
+ */
+export const aavePoolViewAbi = parseAbi([
+  'function getUserAccountData(address user) view returns (uint256 totalCollateralBase, uint256 totalDebtBase, uint256 availableBorrowsBase, uint256 currentLiquidationThreshold, uint256 ltv, uint256 healthFactor)',
+  'function getConfiguration(address asset) view returns ((uint256 data))',
+]);
+
+/**
+ * AaveOracle, quoting asset prices in the base currency (USD, 8 decimals)
+ */
+export const AAVE_V3_ORACLE_ADDRESS = '0xb56c2F0B653B2e0b10C9b928C8580Ac5Df02C7C7' as const;
+
+export const aaveOracleAbi = parseAbi([
+  'function getAssetPrice(address asset) view returns (uint256)',
+]);
+
+/**
+ * Decimals of Aave's base currency amounts and prices
+ */
+export const AAVE_BASE_CURRENCY_DECIMALS = 8;
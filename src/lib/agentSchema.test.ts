@@ -0,0 +1,151 @@
+import { describe, expect, it } from 'vitest';
+import {
+  agentResponseSchema,
+  artifactSchema,
+  classifyArtifactPart,
+  collectArtifactContents,
+  getMessageText,
+  taskUpdateSchema,
+  toolProgressSchema,
+} from './agentSchema';
+
+const POOL = '0x794a61358D6845594F94dc1DB02A252b5b4814aD';
+
+const transactionArtifact = {
+  artifactId: 'transaction-1',
+  name: 'transaction-plan',
+  parts: [
+    {
+      kind: 'data',
+      data: {
+        txPreview: { tokenName: 'USDC', amount: 1, action: 'supply', chainId: 42161 },
+        txPlan: [{ to: POOL, data: '0x1234', chainId: '42161' }],
+      },
+    },
+  ],
+};
+
+const task = {
+  id: 'task-1',
+  kind: 'task',
+  status: {
+    state: 'completed',
+    message: {
+      role: 'agent',
+      parts: [
+        { kind: 'text', text: 'Ready' },
+        { kind: 'data', data: { note: 'from the status' } },
+        { kind: 'text', text: 'to sign' },
+      ],
+    },
+  },
+  artifacts: [transactionArtifact],
+};
+
+describe('agentResponseSchema', () => {
+  it('accepts a completed task with a transaction artifact', () => {
+    const parsed = agentResponseSchema.parse({ success: true, data: task });
+    expect(classifyArtifactPart(parsed.data!.artifacts![0].parts[0])).toEqual({
+      kind: 'transaction',
+      data: {
+        txPreview: { tokenName: 'USDC', amount: '1', action: 'supply', chainId: '42161' },
+        txPlan: [{ to: POOL, data: '0x1234', value: '0', chainId: '42161' }],
+      },
+    });
+  });
+
+  it('accepts failures without a task', () => {
+    expect(agentResponseSchema.safeParse({ success: false, error: 'Upstream down' }).success).toBe(true);
+  });
+
+  it('rejects a successful response without a task status', () => {
+    expect(agentResponseSchema.safeParse({ success: true, data: { id: 'task-1' } }).success).toBe(false);
+  });
+
+  it('rejects unknown task states', () => {
+    const invalid = { ...task, status: { state: 'paused' } };
+    expect(agentResponseSchema.safeParse({ success: true, data: invalid }).success).toBe(false);
+  });
+});
+
+describe('artifactSchema', () => {
+  it('rejects transaction payloads with a malformed plan', () => {
+    const artifact = {
+      ...transactionArtifact,
+      parts: [{ kind: 'data', data: { txPreview: transactionArtifact.parts[0].data.txPreview, txPlan: [{ to: '0x12', data: 'calldata', chainId: 1 }] } }],
+    };
+    const result = artifactSchema.safeParse(artifact);
+    expect(result.success).toBe(false);
+    expect(result.error?.issues.map((issue) => issue.path.join('.'))).toEqual([
+      'parts.0.data.txPlan.0.to',
+      'parts.0.data.txPlan.0.data',
+    ]);
+  });
+
+  it('rejects transaction payloads with an empty plan', () => {
+    const artifact = {
+      ...transactionArtifact,
+      parts: [{ kind: 'data', data: { ...transactionArtifact.parts[0].data, txPlan: [] } }],
+    };
+    expect(artifactSchema.safeParse(artifact).success).toBe(false);
+  });
+
+  it('accepts data payloads of unknown kinds', () => {
+    const artifact = { artifactId: 'misc', parts: [{ kind: 'data', data: { anything: [1, 2] } }] };
+    expect(artifactSchema.safeParse(artifact).success).toBe(true);
+  });
+});
+
+describe('classifyArtifactPart', () => {
+  it('tags transaction, positions, text, file and other data parts', () => {
+    const transaction = artifactSchema.parse(transactionArtifact).parts[0];
+    expect(classifyArtifactPart(transaction).kind).toBe('transaction');
+    expect(classifyArtifactPart({ kind: 'data', data: { positions: [] } }).kind).toBe('positions');
+    expect(classifyArtifactPart({ kind: 'text', text: 'hi' })).toEqual({ kind: 'text', text: 'hi' });
+    expect(classifyArtifactPart({ kind: 'file', file: { name: 'a.csv', uri: 'https://x/a.csv' } })).toEqual({
+      kind: 'file',
+      name: 'a.csv',
+      uri: 'https://x/a.csv',
+    });
+    expect(classifyArtifactPart({ kind: 'data', data: { other: true } })).toEqual({ kind: 'data', data: { other: true } });
+  });
+});
+
+describe('collectArtifactContents', () => {
+  it('lists non-text status parts before the artifacts', () => {
+    const parsed = agentResponseSchema.parse({ success: true, data: task });
+    expect(collectArtifactContents(parsed.data!).map((content) => content.kind)).toEqual(['data', 'transaction']);
+  });
+});
+
+describe('getMessageText', () => {
+  it('joins the text parts', () => {
+    const parsed = agentResponseSchema.parse({ success: true, data: task });
+    expect(getMessageText(parsed.data?.status.message)).toBe('Ready\nto sign');
+    expect(getMessageText(undefined)).toBe('');
+  });
+});
+
+describe('taskUpdateSchema', () => {
+  it('parses status and artifact updates', () => {
+    const status = taskUpdateSchema.parse({ kind: 'status-update', taskId: 't', status: { state: 'working' } });
+    expect(status.kind).toBe('status-update');
+    const artifact = taskUpdateSchema.parse({ kind: 'artifact-update', artifact: { invalid: true } });
+    expect(artifact).toMatchObject({ kind: 'artifact-update', artifact: { invalid: true } });
+  });
+
+  it('rejects other events', () => {
+    expect(taskUpdateSchema.safeParse({ kind: 'task', status: { state: 'completed' } }).success).toBe(false);
+    expect(taskUpdateSchema.safeParse({ kind: 'status-update' }).success).toBe(false);
+  });
+});
+
+describe('toolProgressSchema', () => {
+  it('defaults unknown statuses to started and drops non-string text', () => {
+    expect(toolProgressSchema.parse({ toolName: 'supplyTokens', status: 'queued', text: 42 })).toEqual({
+      toolName: 'supplyTokens',
+      status: 'started',
+      text: undefined,
+    });
+  });
+});
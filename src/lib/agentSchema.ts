@@ -0,0 +1,283 @@
+import { z } from 'zod';
+
+/**
+ * Schemas for the A2A-style task responses returned by the lending agent.
+ *
+ * The API route validates every upstream response against
+ * `agentResponseSchema` before it reaches the client, so the chat UI can rely
+ * on the inferred types below instead of probing unknown JSON.
+ */
+
+// --- Message parts ---
+export const textPartSchema = z.object({
+  kind: z.literal('text'),
+  text: z.string(),
+}).passthrough();
+
+export const dataPartSchema = z.object({
+  kind: z.literal('data'),
+  data: z.record(z.unknown()),
+}).passthrough();
+
+export const filePartSchema = z.object({
+  kind: z.literal('file'),
+  file: z.object({
+    name: z.string().optional(),
+    mimeType: z.string().optional(),
+    bytes: z.string().optional(),
+    uri: z.string().optional(),
+  }).passthrough(),
+}).passthrough();
+
+export const partSchema = z.discriminatedUnion('kind', [
+  textPartSchema,
+  dataPartSchema,
+  filePartSchema,
+]);
+
+export const messageSchema = z.object({
+  role: z.enum(['agent', 'user']),
+  messageId: z.string().optional(),
+  kind: z.literal('message').optional(),
+  parts: z.array(partSchema),
+}).passthrough();
+
+export const taskStateSchema = z.enum([
+  'submitted',
+  'working',
+  'input-required',
+  'completed',
+  'canceled',
+  'failed',
+  'rejected',
+  'auth-required',
+  'unknown',
+]);
+
+export const taskStatusSchema = z.object({
+  state: taskStateSchema,
+  message: messageSchema.optional(),
+  timestamp: z.string().optional(),
+}).passthrough();
+
+// --- Artifact payloads ---
+const hexSchema = z.string().regex(/^0x[0-9a-fA-F]*$/, 'Expected a hex string');
+const addressSchema = z.string().regex(/^0x[0-9a-fA-F]{40}$/, 'Expected an address');
+
+export const txPlanEntrySchema = z.object({
+  to: addressSchema,
+  data: hexSchema,
+  value: z.coerce.string().default('0'),
+  chainId: z.coerce.string(),
+});
+
+export const txPreviewSchema = z.object({
+  tokenName: z.string(),
+  amount: z.coerce.string(),
+  action: z.string(),
+  chainId: z.coerce.string(),
+}).passthrough();
+
+export const transactionArtifactDataSchema = z.object({
+  txPreview: txPreviewSchema,
+  txPlan: z.array(txPlanEntrySchema).min(1),
+});
+
+export const userReserveSchema = z.object({
+  token: z.object({
+    tokenUid: z.object({
+      chainId: z.coerce.string(),
+      address: z.string(),
+    }),
+    name: z.string(),
+    symbol: z.string(),
+    isNative: z.boolean().optional(),
+    decimals: z.number(),
+    isVetted: z.boolean().optional(),
+  }).passthrough(),
+  underlyingBalance: z.string(),
+  underlyingBalanceUsd: z.string(),
+  variableBorrows: z.string(),
+  variableBorrowsUsd: z.string(),
+  totalBorrows: z.string(),
+  totalBorrowsUsd: z.string(),
+  /** APYs as fractions (0.05 = 5%), when the agent provides them */
+  supplyApy: z.coerce.string().optional(),
+  variableBorrowApy: z.coerce.string().optional(),
+  usageAsCollateralEnabled: z.boolean().optional(),
+}).passthrough();
+
+export const positionSchema = z.object({
+  userReserves: z.array(userReserveSchema),
+  totalLiquidityUsd: z.string(),
+  totalCollateralUsd: z.string(),
+  totalBorrowsUsd: z.string(),
+  netWorthUsd: z.string(),
+  availableBorrowsUsd: z.string(),
+  currentLoanToValue: z.string(),
+  currentLiquidationThreshold: z.string(),
+  healthFactor: z.string(),
+}).passthrough();
+
+export const positionsArtifactDataSchema = z.object({
+  positions: z.array(positionSchema),
+});
+
+/**
+ * Data parts are open-ended, but payloads that look like a known artifact
+ * kind must match that kind's schema exactly.
+ */
+const artifactDataSchema = z.record(z.unknown()).superRefine((data, ctx) => {
+  const schema =
+    'txPlan' in data || 'txPreview' in data
+      ? transactionArtifactDataSchema
+      : 'positions' in data
+      ? positionsArtifactDataSchema
+      : null;
+  if (!schema) return;
+
+  const result = schema.safeParse(data);
+  if (!result.success) {
+    result.error.issues.forEach((issue) => ctx.addIssue(issue));
+  }
+});
+
+export const artifactPartSchema = z.discriminatedUnion('kind', [
+  textPartSchema,
+  dataPartSchema.extend({ data: artifactDataSchema }),
+  filePartSchema,
+]);
+
+export const artifactSchema = z.object({
+  artifactId: z.string(),
+  name: z.string().optional(),
+  description: z.string().optional(),
+  parts: z.array(artifactPartSchema),
+}).passthrough();
+
+// --- Task envelope ---
+export const taskSchema = z.object({
+  id: z.string().optional(),
+  contextId: z.string().optional(),
+  kind: z.literal('task').optional(),
+  status: taskStatusSchema,
+  artifacts: z.array(artifactSchema).optional(),
+}).passthrough();
+
+export const agentResponseSchema = z.discriminatedUnion('success', [
+  z.object({
+    success: z.literal(true),
+    data: taskSchema,
+  }),
+  z.object({
+    success: z.literal(false),
+    error: z.unknown().optional(),
+    data: taskSchema.optional(),
+  }),
+]);
+
+// --- Streaming updates ---
+/** Tool-call progress reported as a data part of a status message */
+export const toolProgressSchema = z.object({
+  toolName: z.string().optional(),
+  tool: z.string().optional(),
+  status: z.enum(['started', 'completed', 'failed']).catch('started'),
+  text: z.string().optional().catch(undefined),
+});
+
+/**
+ * Progress events of a streamed task. Artifacts are validated on their own,
+ * so an invalid one can still be reported with the final result.
+ */
+export const taskUpdateSchema = z.discriminatedUnion('kind', [
+  z.object({
+    kind: z.literal('status-update'),
+    taskId: z.string().optional(),
+    contextId: z.string().optional(),
+    status: taskStatusSchema,
+  }).passthrough(),
+  z.object({
+    kind: z.literal('artifact-update'),
+    taskId: z.string().optional(),
+    contextId: z.string().optional(),
+    artifact: z.unknown(),
+  }).passthrough(),
+]);
+
+// --- Types ---
+export type AgentPart = z.infer<typeof partSchema>;
+export type AgentMessage = z.infer<typeof messageSchema>;
+export type AgentTaskStatus = z.infer<typeof taskStatusSchema>;
+export type AgentArtifact = z.infer<typeof artifactSchema>;
+export type AgentArtifactPart = z.infer<typeof artifactPartSchema>;
+export type AgentTask = z.infer<typeof taskSchema>;
+export type AgentResponse = z.infer<typeof agentResponseSchema>;
+export type AgentTaskUpdate = z.infer<typeof taskUpdateSchema>;
+export type TxPlanEntry = z.infer<typeof txPlanEntrySchema>;
+export type TransactionArtifactData = z.infer<typeof transactionArtifactDataSchema>;
+export type PositionsArtifactData = z.infer<typeof positionsArtifactDataSchema>;
+export type AavePosition = z.infer<typeof positionSchema>;
+export type AaveUserReserve = z.infer<typeof userReserveSchema>;
+
+/**
+ * Artifact payloads the UI knows how to handle, tagged by kind
+ */
+export type ArtifactContent =
+  | { kind: 'transaction'; data: TransactionArtifactData }
+  | { kind: 'positions'; data: PositionsArtifactData }
+  | { kind: 'text'; text: string }
+  | { kind: 'data'; data: Record<string, unknown> }
+  | { kind: 'file'; name?: string; uri?: string };
+
+/**
+ * Tags a validated artifact or message part with its kind.
+ */
+export function classifyArtifactPart(part: AgentArtifactPart | AgentPart): ArtifactContent {
+  if (part.kind === 'text') {
+    return { kind: 'text', text: part.text };
+  }
+  if (part.kind === 'file') {
+    return { kind: 'file', name: part.file.name, uri: part.file.uri };
+  }
+
+  const transaction = transactionArtifactDataSchema.safeParse(part.data);
+  if (transaction.success) {
+    return { kind: 'transaction', data: transaction.data };
+  }
+  const positions = positionsArtifactDataSchema.safeParse(part.data);
+  if (positions.success) {
+    return { kind: 'positions', data: positions.data };
+  }
+  return { kind: 'data', data: part.data };
+}
+
+/**
+ * Collects everything renderable from a task besides the status text: the
+ * non-text parts of the status message followed by every part of every
+ * artifact, in the order the agent returned them.
+ */
+export function collectArtifactContents(task: AgentTask): ArtifactContent[] {
+  const messageParts = (task.status.message?.parts ?? []).filter((part) => part.kind !== 'text');
+  const artifactParts = (task.artifacts ?? []).flatMap((artifact) => artifact.parts);
+  return [...messageParts, ...artifactParts].map(classifyArtifactPart);
+}
+
+/**
+ * Joins the text parts of an agent message.
+ */
+export function getMessageText(message?: AgentMessage): string {
+  return (message?.parts ?? [])
+    .filter((part): part is z.infer<typeof textPartSchema> => part.kind === 'text')
+    .map((part) => part.text)
+    .join('\n');
+}
+
+/**
+ * Flattens zod issues into a JSON-friendly list for API error responses.
+ */
+export function formatSchemaIssues(error: z.ZodError) {
+  return error.issues.map((issue) => ({
+    path: issue.path.join('.'),
+    message: issue.message,
+  }));
+}
@@ -0,0 +1,96 @@
+import { describe, expect, it, vi } from 'vitest';
+import {
+  encodeAgentStreamEvent,
+  readAgentStream,
+  readServerSentEvents,
+  type AgentStreamEvent,
+} from './agentStream';
+
+function streamOf(chunks: string[], { close = true, onCancel }: { close?: boolean; onCancel?: () => void } = {}) {
+  const encoder = new TextEncoder();
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (const chunk of chunks) controller.enqueue(encoder.encode(chunk));
+      if (close) controller.close();
+    },
+    cancel: onCancel,
+  });
+}
+
+async function collect<T>(events: AsyncIterable<T>): Promise<T[]> {
+  const collected: T[] = [];
+  for await (const event of events) collected.push(event);
+  return collected;
+}
+
+describe('readServerSentEvents', () => {
+  it('yields the JSON payload of each event', async () => {
+    const events = await collect(readServerSentEvents(streamOf(['data: {"a":1}\n\ndata: {"b":2}\n\n'])));
+    expect(events).toEqual([{ a: 1 }, { b: 2 }]);
+  });
+
+  it('joins multi-line data fields', async () => {
+    const events = await collect(readServerSentEvents(streamOf(['data: {"a":\ndata: 1}\n\n'])));
+    expect(events).toEqual([{ a: 1 }]);
+  });
+
+  it('reassembles events split across chunks', async () => {
+    const events = await collect(readServerSentEvents(streamOf(['da', 'ta: {"a"', ':1}\n', '\n'])));
+    expect(events).toEqual([{ a: 1 }]);
+  });
+
+  it('handles CRLF line endings split between chunks', async () => {
+    const events = await collect(
+      readServerSentEvents(streamOf(['data: {"a":\r', '\ndata: 1}\r\n\r', '\ndata: {"b":2}\r\n\r\n']))
+    );
+    expect(events).toEqual([{ a: 1 }, { b: 2 }]);
+  });
+
+  it('accepts bare CR line endings', async () => {
+    const events = await collect(readServerSentEvents(streamOf(['data: {"a":1}\r\r'])));
+    expect(events).toEqual([{ a: 1 }]);
+  });
+
+  it('skips comments, [DONE] and non-JSON payloads', async () => {
+    const events = await collect(
+      readServerSentEvents(streamOf([': keep-alive\n\ndata: not json\n\ndata: [DONE]\n\ndata: {"a":1}\n\n']))
+    );
+    expect(events).toEqual([{ a: 1 }]);
+  });
+
+  it('yields a final event without a trailing blank line', async () => {
+    const events = await collect(readServerSentEvents(streamOf(['data: {"a":1}'])));
+    expect(events).toEqual([{ a: 1 }]);
+  });
+
+  it('cancels the stream when the reader stops early', async () => {
+    const onCancel = vi.fn();
+    const upstream = streamOf(['data: {"a":1}\n\n'], { close: false, onCancel });
+    for await (const event of readServerSentEvents(upstream)) {
+      expect(event).toEqual({ a: 1 });
+      break;
+    }
+    expect(onCancel).toHaveBeenCalledOnce();
+  });
+});
+
+describe('readAgentStream', () => {
+  const status: AgentStreamEvent = { type: 'status', state: 'working', text: 'Thinking' };
+  const error: AgentStreamEvent = { type: 'error', error: 'Failed' };
+
+  it('round-trips encoded events split across chunks', async () => {
+    const body = encodeAgentStreamEvent(status) + encodeAgentStreamEvent(error);
+    const response = new Response(streamOf([body.slice(0, 10), body.slice(10)]));
+    expect(await collect(readAgentStream(response))).toEqual([status, error]);
+  });
+
+  it('skips blank and malformed lines', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const response = new Response(streamOf([`\n{oops\n${encodeAgentStreamEvent(status)}`]));
+    expect(await collect(readAgentStream(response))).toEqual([status]);
+  });
+
+  it('yields nothing for a response without a body', async () => {
+    expect(await collect(readAgentStream(new Response(null)))).toEqual([]);
+  });
+});
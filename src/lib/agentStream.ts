@@ -0,0 +1,110 @@
+import type { AgentArtifact, AgentResponse } from './agentSchema';
+
+/**
+ * Streaming protocol shared by the lending-agent API route and the chat UI.
+ *
+ * When the client asks for a streamed response, the route answers with
+ * newline-delimited JSON (NDJSON): one AgentStreamEvent per line, relayed as
+ * soon as the upstream agent reports progress. The last event is always either
+ * a `result` (the same payload the non-streaming route returns) or an `error`.
+ */
+
+export const AGENT_STREAM_CONTENT_TYPE = 'application/x-ndjson';
+
+export type AgentStreamEvent =
+  | { type: 'status'; state: string; text?: string }
+  | { type: 'tool'; name: string; status: 'started' | 'completed' | 'failed'; text?: string }
+  | { type: 'artifact'; artifact: AgentArtifact }
+  | { type: 'result'; result: AgentResponse }
+  | { type: 'error'; error: string; issues?: { path: string; message: string }[] };
+
+/**
+ * Serializes a single event as one NDJSON line.
+ */
+export function encodeAgentStreamEvent(event: AgentStreamEvent): string {
+  return `${JSON.stringify(event)}\n`;
+}
+
+/**
+ * Reads an NDJSON response body and yields each event as it arrives.
+ *
+ * Blank and malformed lines are skipped so a partially flushed chunk never
+ * breaks the stream.
+ */
+export async function* readAgentStream(
+  response: Response
+): AsyncGenerator<AgentStreamEvent> {
+  if (!response.body) {
+    return;
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    buffer += decoder.decode(value, { stream: !done });
+
+    const lines = buffer.split('\n');
+    buffer = done ? '' : lines.pop() ?? '';
+
+    for (const line of lines) {
+      if (!line.trim()) continue;
+      try {
+        yield JSON.parse(line) as AgentStreamEvent;
+      } catch (error) {
+        console.warn('Skipping malformed stream line:', error);
+      }
+    }
+
+    if (done) break;
+  }
+}
+
+/**
+ * Reads a `text/event-stream` body and yields the JSON payload of each event.
+ *
+ * Multi-line `data:` fields are joined as described by the SSE spec. Events
+ * whose payload is not JSON (e.g. keep-alive comments) are ignored.
+ */
+export async function* readServerSentEvents(
+  body: ReadableStream<Uint8Array>
+): AsyncGenerator<unknown> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let finished = false;
+
+  try {
+    while (!finished) {
+      const { done, value } = await reader.read();
+      finished = done;
+      buffer += decoder.decode(value, { stream: !done });
+
+      // A chunk may end between \r and \n, so a trailing \r waits for the next one
+      const pending = !done && buffer.endsWith('\r') ? '\r' : '';
+      const events = buffer.slice(0, buffer.length - pending.length).replace(/\r\n?/g, '\n').split('\n\n');
+      buffer = done ? '' : (events.pop() ?? '') + pending;
+
+      for (const event of events) {
+        const data = event
+          .split('\n')
+          .filter((line) => line.startsWith('data:'))
+          .map((line) => line.slice(5).trimStart())
+          .join('\n');
+        if (!data || data === '[DONE]') continue;
+        try {
+          yield JSON.parse(data);
+        } catch {
+          // Not a JSON payload, nothing to relay
+        }
+      }
+    }
+  } finally {
+    // The caller stopped early: stop the upstream response too
+    if (!finished) {
+      await reader.cancel().catch(() => undefined);
+    }
+  }
+}
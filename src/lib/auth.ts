@@ -0,0 +1,102 @@
+import { createHash } from 'crypto';
+import { createClient, Errors } from '@farcaster/quick-auth';
+import {
+  getCachedVerifiedAddresses,
+  getQuickAuthClaims,
+  setCachedVerifiedAddresses,
+  setQuickAuthClaims,
+} from './kv';
+import { getNeynarUser } from './neynar';
+
+/**
+ * Server-side QuickAuth verification and Farcaster wallet lookups, used by
+ * the session module (session.ts) to authenticate requests.
+ *
+ * Clients send the QuickAuth JWT as `Authorization: Bearer <token>`. The
+ * token's `sub` claim is the user's FID. Verified claims are cached in KV
+ * until the token expires, so a token is only verified once.
+ */
+
+const quickAuthClient = createClient();
+
+export interface AuthenticatedUser {
+  fid: number;
+}
+
+export interface QuickAuthClaims {
+  fid: number;
+  /** When the token expires, in milliseconds since the epoch */
+  expiresAt: number;
+}
+
+/** Tokens are cached under a hash, so KV never holds usable credentials */
+function getTokenHash(token: string, domain: string): string {
+  return createHash('sha256').update(`${domain}:${token}`).digest('hex');
+}
+
+/**
+ * The domain QuickAuth tokens and SIWE messages are issued for: the app's
+ * domain. The request's `Host` header, which the client controls, is only
+ * used in development when NEXT_PUBLIC_URL is not set.
+ *
+ * @throws If NEXT_PUBLIC_URL is not set outside development
+ */
+export function getQuickAuthDomain(request: Request): string {
+  if (process.env.NEXT_PUBLIC_URL) {
+    return new URL(process.env.NEXT_PUBLIC_URL).hostname;
+  }
+  if (process.env.NODE_ENV === 'development') {
+    return request.headers.get('host') || 'localhost';
+  }
+  throw new Error('NEXT_PUBLIC_URL must be set to authenticate requests');
+}
+
+/**
+ * Verifies a QuickAuth JWT.
+ *
+ * @returns The token's user, or null if the token is invalid or expired
+ * @throws If verification could not be completed
+ */
+export async function verifyQuickAuthToken(
+  token: string,
+  domain: string
+): Promise<AuthenticatedUser | null> {
+  const tokenHash = getTokenHash(token, domain);
+  const cached = await getQuickAuthClaims(tokenHash);
+  if (cached && cached.expiresAt > Date.now()) {
+    return { fid: cached.fid };
+  }
+
+  try {
+    const payload = await quickAuthClient.verifyJwt({ token, domain });
+    const claims = { fid: Number(payload.sub), expiresAt: payload.exp * 1000 };
+    await setQuickAuthClaims(tokenHash, claims);
+    return { fid: claims.fid };
+  } catch (e) {
+    if (e instanceof Errors.InvalidTokenError) {
+      console.info('Invalid token:', e.message);
+      return null;
+    }
+    throw e;
+  }
+}
+
+/** Verified addresses are looked up again after this long */
+const VERIFIED_ADDRESSES_TTL_SECONDS = 5 * 60;
+
+/**
+ * The FID's verified Ethereum addresses on Farcaster, cached in KV for
+ * VERIFIED_ADDRESSES_TTL_SECONDS. Empty when Neynar is not configured or the
+ * lookup fails.
+ */
+export async function getVerifiedAddresses(fid: number): Promise<string[]> {
+  if (!process.env.NEYNAR_API_KEY) return [];
+  const cached = await getCachedVerifiedAddresses(fid);
+  if (cached) return cached;
+
+  const user = await getNeynarUser(fid);
+  if (!user) return [];
+  const addresses = user.verified_addresses?.eth_addresses ?? [];
+  await setCachedVerifiedAddresses(fid, addresses, VERIFIED_ADDRESSES_TTL_SECONDS);
+  return addresses;
+}
@@ -0,0 +1,124 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createBroadcast, MAX_BROADCAST_ATTEMPTS, processBroadcastRetries } from './broadcast';
+import { getBroadcastCampaign, getNotificationLog, getUserNotificationDetails, setUserNotificationDetails } from './kv';
+
+const NOTIFICATION_URL = 'https://client.example/notifications';
+const START = new Date('2025-01-15T12:00:00Z').getTime();
+const MINUTE = 60 * 1000;
+
+type Outcome = 'success' | 'invalid' | 'rate_limited' | 'error';
+
+/**
+ * Stubs the client's notification endpoint, answering each token with its
+ * outcome. Returns the tokens of every request.
+ */
+function stubClient(outcomeOf: (token: string) => Outcome) {
+  const requests: string[][] = [];
+  vi.stubGlobal(
+    'fetch',
+    vi.fn(async (_url: string, init: RequestInit) => {
+      const { tokens } = JSON.parse(String(init.body)) as { tokens: string[] };
+      requests.push(tokens);
+      if (tokens.some((token) => outcomeOf(token) === 'error')) {
+        return Response.json({ error: 'Service unavailable' }, { status: 503 });
+      }
+      const withOutcome = (outcome: Outcome) => tokens.filter((token) => outcomeOf(token) === outcome);
+      return Response.json({
+        result: {
+          successfulTokens: withOutcome('success'),
+          invalidTokens: withOutcome('invalid'),
+          rateLimitedTokens: withOutcome('rate_limited'),
+        },
+      });
+    })
+  );
+  return requests;
+}
+
+async function addUsers(...fids: number[]) {
+  for (const fid of fids) {
+    await setUserNotificationDetails(fid, { url: NOTIFICATION_URL, token: `token-${fid}` });
+  }
+}
+
+describe('broadcasts', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(START);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('delivers to every recipient and logs the notification', async () => {
+    await addUsers(1, 2);
+    const requests = stubClient(() => 'success');
+
+    const campaign = await createBroadcast({ title: 'Hello', body: 'News', fids: [1, 2] });
+
+    expect(requests).toEqual([['token-1', 'token-2']]);
+    expect(campaign.status).toBe('completed');
+    expect(campaign.stats).toMatchObject({ recipients: 2, delivered: 2, pending: 0, failed: 0 });
+    expect(await getNotificationLog(1)).toEqual([
+      expect.objectContaining({ notificationId: campaign.id, title: 'Hello', state: 'success', attempts: 1 }),
+    ]);
+  });
+
+  it('deletes invalid tokens', async () => {
+    await addUsers(3, 4);
+    stubClient((token) => (token === 'token-3' ? 'invalid' : 'success'));
+
+    const campaign = await createBroadcast({ title: 'Hello', body: 'News', fids: [3, 4] });
+
+    expect(campaign.stats).toMatchObject({ delivered: 1, invalid: 1 });
+    expect(await getUserNotificationDetails(3)).toBeNull();
+    expect(await getUserNotificationDetails(4)).not.toBeNull();
+  });
+
+  it('requeues rate-limited tokens with exponential backoff until they run out of attempts', async () => {
+    await addUsers(5, 6);
+    const requests = stubClient((token) => (token === 'token-5' ? 'rate_limited' : 'success'));
+
+    const campaign = await createBroadcast({ title: 'Hello', body: 'News', fids: [5, 6] });
+    expect(campaign.status).toBe('sending');
+    expect(campaign.stats).toMatchObject({ delivered: 1, rateLimited: 1, pending: 1 });
+    expect(campaign.queue).toEqual([
+      { url: NOTIFICATION_URL, recipients: [{ fid: 5, token: 'token-5' }], attempt: 1, nextAttemptAt: START + MINUTE },
+    ]);
+
+    // Not due yet
+    expect(await processBroadcastRetries(START + MINUTE - 1)).toEqual({ processed: 0, completed: 0 });
+    expect(requests).toHaveLength(1);
+
+    let now = START + MINUTE;
+    for (const delay of [2, 4, 8]) {
+      await processBroadcastRetries(now);
+      const { queue } = (await getBroadcastCampaign(campaign.id))!;
+      expect(queue).toEqual([expect.objectContaining({ nextAttemptAt: now + delay * MINUTE })]);
+      now += delay * MINUTE;
+    }
+
+    expect(await processBroadcastRetries(now)).toEqual({ processed: 1, completed: 1 });
+    expect(requests.filter((tokens) => tokens.includes('token-5'))).toHaveLength(MAX_BROADCAST_ATTEMPTS);
+
+    const completed = (await getBroadcastCampaign(campaign.id))!;
+    expect(completed.status).toBe('completed');
+    expect(completed.stats).toMatchObject({ delivered: 1, rateLimited: MAX_BROADCAST_ATTEMPTS, pending: 0, failed: 1 });
+  });
+
+  it('retries the whole batch when the request fails', async () => {
+    await addUsers(7, 8);
+    let clientDown = true;
+    stubClient(() => (clientDown ? 'error' : 'success'));
+
+    const campaign = await createBroadcast({ title: 'Hello', body: 'News', fids: [7, 8] });
+    expect(campaign.stats).toMatchObject({ delivered: 0, pending: 2 });
+    expect(campaign.lastError).toContain('Service unavailable');
+
+    clientDown = false;
+    expect(await processBroadcastRetries(START + MINUTE)).toEqual({ processed: 1, completed: 1 });
+    expect((await getBroadcastCampaign(campaign.id))!.stats).toMatchObject({ delivered: 2, pending: 0 });
+    expect(await getNotificationLog(7)).toEqual([expect.objectContaining({ attempts: 2 })]);
+  });
+});
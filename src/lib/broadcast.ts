@@ -0,0 +1,317 @@
+import { buildDeepLinkUrl, type DeepLink } from './deepLinks';
+import {
+  acquireLock,
+  addBroadcastCampaign,
+  deleteUserNotificationDetails,
+  getBroadcastCampaign,
+  getBroadcastCampaignIds,
+  getNotificationUserFids,
+  getUserNotificationDetails,
+  releaseLock,
+  setBroadcastCampaign,
+} from './kv';
+import { addNotificationLogEntry } from './notificationLog';
+import type { NotificationCategory } from './notificationPreferences';
+import { checkNotificationPreferences, postNotification } from './notifs';
+
+/**
+ * Notification campaigns sent to every user with a stored notification
+ * token, or to a list of FIDs.
+ *
+ * Tokens are grouped by the notification URL of the user's client and sent
+ * in batches of up to 100, the most one request may carry. Tokens the client
+ * reports as invalid are deleted. Rate-limited tokens, and whole batches
+ * whose request failed, are queued on the campaign and retried with
+ * exponential backoff by the `broadcast-retries` cron job until
+ * MAX_BROADCAST_ATTEMPTS is reached.
+ *
+ * The campaign id is the notification id of every request, so clients
+ * deduplicate a delivery that is retried after it went through. Delivered
+ * notifications are added to each recipient's notification log.
+ */
+
+/** Tokens per request allowed by the Farcaster notification spec */
+export const MAX_TOKENS_PER_REQUEST = 100;
+
+/** Attempts per token, including the first one */
+export const MAX_BROADCAST_ATTEMPTS = 5;
+
+const BASE_RETRY_DELAY_MS = 60 * 1000;
+const MAX_RETRY_DELAY_MS = 60 * 60 * 1000;
+
+/** Upper bound on sending one campaign's due batches */
+const BROADCAST_LOCK_TTL_SECONDS = 5 * 60;
+
+export interface BroadcastRecipient {
+  fid: number;
+  token: string;
+}
+
+/** Tokens sharing a notification URL, sent in one request */
+export interface BroadcastBatch {
+  url: string;
+  recipients: BroadcastRecipient[];
+  /** Attempts made so far */
+  attempt: number;
+  nextAttemptAt: number;
+}
+
+export interface BroadcastStats {
+  /** Users with a notification token when the campaign was created */
+  recipients: number;
+  delivered: number;
+  /** Tokens the client reported as invalid; they are deleted */
+  invalid: number;
+  /** Users skipped by their notification preferences */
+  muted: number;
+  /** Rate-limited deliveries, counting every attempt */
+  rateLimited: number;
+  /** Tokens waiting for a retry */
+  pending: number;
+  /** Tokens given up on after MAX_BROADCAST_ATTEMPTS */
+  failed: number;
+}
+
+export type BroadcastStatus = 'sending' | 'completed';
+
+export interface BroadcastCampaign {
+  /** Also the notification id of every request */
+  id: string;
+  title: string;
+  body: string;
+  target?: DeepLink;
+  category?: NotificationCategory;
+  status: BroadcastStatus;
+  stats: BroadcastStats;
+  /** Batches waiting to be sent */
+  queue: BroadcastBatch[];
+  lastError?: string;
+  createdAt: number;
+  updatedAt: number;
+  completedAt?: number;
+}
+
+/** A campaign without the recipients' tokens, for the API */
+export type BroadcastSummary = Omit<BroadcastCampaign, 'queue'> & {
+  nextAttemptAt?: number;
+};
+
+export interface BroadcastRetryRunResult {
+  processed: number;
+  completed: number;
+}
+
+function getRetryDelay(attempt: number): number {
+  return Math.min(BASE_RETRY_DELAY_MS * 2 ** (attempt - 1), MAX_RETRY_DELAY_MS);
+}
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
+
+export function toBroadcastSummary(campaign: BroadcastCampaign): BroadcastSummary {
+  const { queue, ...summary } = campaign;
+  return queue.length
+    ? { ...summary, nextAttemptAt: Math.min(...queue.map((batch) => batch.nextAttemptAt)) }
+    : summary;
+}
+
+/**
+ * Queues recipients for another attempt, or counts them as failed once
+ * they are out of attempts.
+ */
+function requeue(campaign: BroadcastCampaign, batch: BroadcastBatch, recipients: BroadcastRecipient[], now: number) {
+  if (recipients.length === 0) return;
+  const attempt = batch.attempt + 1;
+  if (attempt >= MAX_BROADCAST_ATTEMPTS) {
+    campaign.stats.failed += recipients.length;
+    return;
+  }
+  campaign.queue.push({
+    url: batch.url,
+    recipients,
+    attempt,
+    nextAttemptAt: now + getRetryDelay(attempt),
+  });
+}
+
+/**
+ * Deletes the notification details of a user whose token is invalid,
+ * unless they have been replaced by a new token in the meantime.
+ */
+async function removeInvalidToken(recipient: BroadcastRecipient) {
+  const details = await getUserNotificationDetails(recipient.fid);
+  if (details?.token === recipient.token) {
+    await deleteUserNotificationDetails(recipient.fid);
+  }
+}
+
+async function sendBatch(campaign: BroadcastCampaign, batch: BroadcastBatch, now: number) {
+  const tokens = batch.recipients.map((recipient) => recipient.token);
+  const targetUrl = buildDeepLinkUrl(campaign.target ?? {});
+  let response: Awaited<ReturnType<typeof postNotification>>;
+  try {
+    response = await postNotification(batch.url, {
+      notificationId: campaign.id,
+      title: campaign.title,
+      body: campaign.body,
+      targetUrl,
+      tokens,
+    });
+  } catch (error) {
+    response = { state: 'error', error: error instanceof Error ? error.message : String(error) };
+  }
+
+  if (response.state === 'error') {
+    // The client may be down; try the whole batch again later
+    campaign.lastError = typeof response.error === 'string' ? response.error : JSON.stringify(response.error);
+    requeue(campaign, batch, batch.recipients, now);
+    return;
+  }
+
+  const { successfulTokens, invalidTokens, rateLimitedTokens } = response.result;
+  const byToken = (list: string[]) => batch.recipients.filter((recipient) => list.includes(recipient.token));
+
+  campaign.stats.delivered += successfulTokens.length;
+  for (const recipient of byToken(successfulTokens)) {
+    try {
+      await addNotificationLogEntry(recipient.fid, {
+        notificationId: campaign.id,
+        title: campaign.title,
+        body: campaign.body,
+        category: campaign.category,
+        targetUrl,
+        state: 'success',
+        attempts: batch.attempt + 1,
+        createdAt: campaign.createdAt,
+        updatedAt: now,
+      });
+    } catch (error) {
+      // The notification went out, so a missing log entry must not get it sent again
+      console.error(`Failed to log broadcast ${campaign.id} for FID ${recipient.fid}:`, error);
+    }
+  }
+
+  campaign.stats.invalid += invalidTokens.length;
+  for (const recipient of byToken(invalidTokens)) {
+    await removeInvalidToken(recipient);
+  }
+
+  campaign.stats.rateLimited += rateLimitedTokens.length;
+  requeue(campaign, batch, byToken(rateLimitedTokens), now);
+}
+
+/**
+ * Sends the campaign's batches that are due, under a lock so the API and
+ * the retry job never send the same batch twice.
+ *
+ * @returns The updated campaign, or null if it does not exist
+ */
+export async function processBroadcast(id: string, now = Date.now()): Promise<BroadcastCampaign | null> {
+  const lockToken = await acquireLock(`broadcast:${id}`, BROADCAST_LOCK_TTL_SECONDS);
+  if (!lockToken) {
+    // Another run is sending it
+    return getBroadcastCampaign(id);
+  }
+
+  try {
+    const campaign = await getBroadcastCampaign(id);
+    if (!campaign || campaign.status === 'completed') return campaign;
+
+    const due = campaign.queue.filter((batch) => batch.nextAttemptAt <= now);
+    campaign.queue = campaign.queue.filter((batch) => batch.nextAttemptAt > now);
+    for (const batch of due) {
+      await sendBatch(campaign, batch, now);
+    }
+
+    campaign.stats.pending = campaign.queue.reduce((total, batch) => total + batch.recipients.length, 0);
+    campaign.updatedAt = now;
+    if (campaign.queue.length === 0) {
+      campaign.status = 'completed';
+      campaign.completedAt = now;
+    }
+    await setBroadcastCampaign(campaign);
+    return campaign;
+  } finally {
+    await releaseLock(`broadcast:${id}`, lockToken);
+  }
+}
+
+/**
+ * Creates a campaign for every user with a notification token, or for
+ * `fids`, and sends its first round of batches.
+ */
+export async function createBroadcast({
+  title,
+  body,
+  target,
+  category,
+  fids,
+}: {
+  title: string;
+  body: string;
+  target?: DeepLink;
+  category?: NotificationCategory;
+  fids?: number[];
+}): Promise<BroadcastCampaign> {
+  const now = Date.now();
+  const campaign: BroadcastCampaign = {
+    id: crypto.randomUUID(),
+    title,
+    body,
+    target,
+    category,
+    status: 'sending',
+    stats: { recipients: 0, delivered: 0, invalid: 0, muted: 0, rateLimited: 0, pending: 0, failed: 0 },
+    queue: [],
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  const recipientsByUrl = new Map<string, BroadcastRecipient[]>();
+  for (const fid of new Set(fids ?? (await getNotificationUserFids()))) {
+    const details = await getUserNotificationDetails(fid);
+    if (!details) continue;
+    campaign.stats.recipients++;
+
+    if (await checkNotificationPreferences(fid, category)) {
+      campaign.stats.muted++;
+      continue;
+    }
+    const recipients = recipientsByUrl.get(details.url) ?? [];
+    recipients.push({ fid, token: details.token });
+    recipientsByUrl.set(details.url, recipients);
+  }
+
+  for (const [url, recipients] of recipientsByUrl) {
+    for (const batch of chunk(recipients, MAX_TOKENS_PER_REQUEST)) {
+      campaign.queue.push({ url, recipients: batch, attempt: 0, nextAttemptAt: now });
+    }
+  }
+
+  await addBroadcastCampaign(campaign);
+  return (await processBroadcast(campaign.id, now)) ?? campaign;
+}
+
+/**
+ * Sends the due retries of every recent campaign that is still sending.
+ */
+export async function processBroadcastRetries(now = Date.now()): Promise<BroadcastRetryRunResult> {
+  const result: BroadcastRetryRunResult = { processed: 0, completed: 0 };
+
+  for (const id of await getBroadcastCampaignIds()) {
+    const campaign = await getBroadcastCampaign(id);
+    if (!campaign || campaign.status !== 'sending') continue;
+    if (!campaign.queue.some((batch) => batch.nextAttemptAt <= now)) continue;
+
+    const updated = await processBroadcast(id, now);
+    result.processed++;
+    if (updated?.status === 'completed') result.completed++;
+  }
+
+  return result;
+}
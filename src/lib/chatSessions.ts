@@ -0,0 +1,129 @@
+import { APP_NAME } from './constants';
+import { getItem, setItem } from './localStorage';
+import type { ArtifactContent } from './agentSchema';
+import type { TransactionData } from './tokenUtils';
+
+/**
+ * Chat conversation model and client-side persistence.
+ *
+ * Conversations are stored per FID + wallet address so switching accounts
+ * never mixes histories. Each entry keeps its messages and any transaction
+ * plan still waiting for approval, so a reload can pick up where it left off.
+ */
+
+export interface ChatMessage {
+  id: string;
+  type: 'user' | 'assistant' | 'system';
+  content: string;
+  timestamp: Date;
+  /** Artifacts and non-text parts returned with an agent reply */
+  attachments?: ArtifactContent[];
+}
+
+export interface ChatSession {
+  id: string;
+  title: string;
+  createdAt: number;
+  updatedAt: number;
+  messages: ChatMessage[];
+  pendingTransaction: TransactionData | null;
+}
+
+/**
+ * JSON form of a ChatSession, as kept in localStorage and KV
+ */
+export type StoredChatSession = Omit<ChatSession, 'messages'> & {
+  messages: (Omit<ChatMessage, 'timestamp'> & { timestamp: string })[];
+};
+
+/** Sessions kept per account; the least recently updated are dropped first */
+export const MAX_CHAT_SESSIONS = 20;
+
+/** Messages kept per session; older messages are dropped first */
+export const MAX_SESSION_MESSAGES = 200;
+
+/** Characters kept per message; longer messages are truncated when saved */
+export const MAX_MESSAGE_CONTENT_LENGTH = 10_000;
+
+const DEFAULT_SESSION_TITLE = 'New chat';
+
+export function getChatSessionsStorageKey(address: string, fid?: number): string {
+  return `${APP_NAME}:chat:${fid ?? 'anonymous'}:${address.toLowerCase()}`;
+}
+
+export function createChatSession(): ChatSession {
+  const now = Date.now();
+  return {
+    id: `${now.toString(36)}${Math.random().toString(36).slice(2, 8)}`,
+    title: DEFAULT_SESSION_TITLE,
+    createdAt: now,
+    updatedAt: now,
+    messages: [],
+    pendingTransaction: null,
+  };
+}
+
+/**
+ * Titles a session after its first user message, unless it was renamed.
+ */
+export function deriveSessionTitle(session: ChatSession, messages: ChatMessage[]): string {
+  if (session.title !== DEFAULT_SESSION_TITLE) return session.title;
+  const firstUserMessage = messages.find((message) => message.type === 'user');
+  if (!firstUserMessage) return session.title;
+  const title = firstUserMessage.content.trim();
+  return title.length > 40 ? `${title.slice(0, 40)}…` : title;
+}
+
+export function serializeChatSessions(sessions: ChatSession[]): StoredChatSession[] {
+  return sessions.map((session) => ({
+    ...session,
+    messages: session.messages.slice(-MAX_SESSION_MESSAGES).map((message) => ({
+      ...message,
+      content: message.content.slice(0, MAX_MESSAGE_CONTENT_LENGTH),
+      timestamp: message.timestamp.toISOString(),
+    })),
+  }));
+}
+
+export function deserializeChatSessions(stored: StoredChatSession[]): ChatSession[] {
+  return stored.map((session) => ({
+    ...session,
+    messages: session.messages.map((message) => ({
+      ...message,
+      timestamp: new Date(message.timestamp),
+    })),
+  }));
+}
+
+/**
+ * Sorts sessions by most recent activity and applies the retention limit.
+ */
+export function pruneChatSessions(sessions: ChatSession[]): ChatSession[] {
+  return [...sessions]
+    .sort((a, b) => b.updatedAt - a.updatedAt)
+    .slice(0, MAX_CHAT_SESSIONS);
+}
+
+/**
+ * Merges two copies of a session list, keeping the most recently updated
+ * version of each session.
+ */
+export function mergeChatSessions(local: ChatSession[], remote: ChatSession[]): ChatSession[] {
+  const byId = new Map<string, ChatSession>();
+  for (const session of [...local, ...remote]) {
+    const existing = byId.get(session.id);
+    if (!existing || existing.updatedAt < session.updatedAt) {
+      byId.set(session.id, session);
+    }
+  }
+  return pruneChatSessions([...byId.values()]);
+}
+
+export function loadChatSessions(storageKey: string): ChatSession[] {
+  const stored = getItem<StoredChatSession[]>(storageKey);
+  return stored ? deserializeChatSessions(stored) : [];
+}
+
+export function saveChatSessions(storageKey: string, sessions: ChatSession[]) {
+  setItem(storageKey, serializeChatSessions(pruneChatSessions(sessions)));
+}
@@ -113,6 +113,41 @@ export const USE_WALLET: boolean = true;
  */
 export const ANALYTICS_ENABLED: boolean = false;
 
+/**
+ * Flag to enable/disable server-side chat history.
+ *
+ * When true, chat sessions are also saved to the KV store so conversations
+ * follow the user across devices. When false, they live in localStorage only.
+ */
+export const CHAT_HISTORY_SYNC_ENABLED: boolean =
+  process.env.NEXT_PUBLIC_CHAT_HISTORY_SYNC === 'true';
+
+/**
+ * Flag to keep QuickAuth tokens across reloads.
+ *
+ * When true, the token is saved to localStorage until it expires, so a reload
+ * does not repeat the QuickAuth handshake. When false, it lives in memory only.
+ */
+export const QUICK_AUTH_PERSISTENCE_ENABLED: boolean =
+  process.env.NEXT_PUBLIC_QUICK_AUTH_PERSISTENCE === 'true';
+
+/**
+ * Health factor below which borrow and withdraw plans need an explicit
+ * acknowledgement before signing.
+ *
+ * Plans that would bring the health factor below 1 (liquidatable) are
+ * always blocked.
+ */
+export const MIN_HEALTH_FACTOR: number =
+  Number(process.env.NEXT_PUBLIC_MIN_HEALTH_FACTOR) || 1.5;
+
+/**
+ * Thresholds suggested when a user turns on health factor alerts, and how
+ * many thresholds a user can set.
+ */
+export const DEFAULT_HEALTH_THRESHOLDS: number[] = [1.5, 1.2];
+export const MAX_HEALTH_THRESHOLDS: number = 3;
+
 /**
  * Required chains for the mini app.
  *
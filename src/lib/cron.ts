@@ -0,0 +1,106 @@
+import { acquireLock, addCronRun, releaseLock } from './kv';
+import { runHealthMonitorChecks } from './healthMonitor';
+import { processBroadcastRetries } from './broadcast';
+
+/**
+ * Scheduled server-side jobs.
+ *
+ * Jobs are registered in `CRON_JOBS` and run through `/api/cron/<name>`,
+ * which Vercel Cron calls on the schedules listed in vercel.json. Every run
+ * takes a KV lock named after the job, so a run that starts while the
+ * previous one is still going is recorded as skipped instead of doing the
+ * work twice. Runs are kept in KV and listed by `/api/cron`.
+ *
+ * Configuration:
+ * - CRON_SECRET: bearer token required by the cron routes outside
+ *   development. Vercel sends it with every cron invocation.
+ */
+
+export interface CronJob {
+  description: string;
+  /** Cron expression, mirrored in vercel.json */
+  schedule: string;
+  /** Upper bound on a run; the lock expires after it if a run dies */
+  lockTtlSeconds: number;
+  /** Does the work; the resolved value is stored with the run */
+  run: () => Promise<unknown>;
+}
+
+export type CronRunStatus = 'success' | 'failed' | 'skipped';
+
+export interface CronRun {
+  id: string;
+  job: string;
+  status: CronRunStatus;
+  startedAt: number;
+  finishedAt: number;
+  result?: unknown;
+  error?: string;
+}
+
+export const CRON_JOBS: Record<string, CronJob> = {
+  'health-monitor': {
+    description: 'Checks monitored Aave positions and sends health factor alerts',
+    schedule: '*/30 * * * *',
+    lockTtlSeconds: 10 * 60,
+    run: runHealthMonitorChecks,
+  },
+  'broadcast-retries': {
+    description: 'Retries rate-limited and failed broadcast notifications',
+    schedule: '*/5 * * * *',
+    lockTtlSeconds: 10 * 60,
+    run: processBroadcastRetries,
+  },
+};
+
+/**
+ * Whether a request carries the cron secret. Without CRON_SECRET the cron
+ * routes are only open in development.
+ */
+export function isCronRequestAuthorized(request: Request): boolean {
+  const secret = process.env.CRON_SECRET;
+  return secret
+    ? request.headers.get('authorization') === `Bearer ${secret}`
+    : process.env.NODE_ENV === 'development';
+}
+
+/**
+ * Runs a registered job under its lock and records the run.
+ */
+export async function runCronJob(name: string): Promise<CronRun> {
+  const job = CRON_JOBS[name];
+  if (!job) {
+    throw new Error(`Unknown cron job: ${name}`);
+  }
+
+  const startedAt = Date.now();
+  const run: CronRun = {
+    id: crypto.randomUUID(),
+    job: name,
+    status: 'skipped',
+    startedAt,
+    finishedAt: startedAt,
+  };
+
+  const lockToken = await acquireLock(`cron:${name}`, job.lockTtlSeconds);
+  if (!lockToken) {
+    run.error = 'Previous run still in progress';
+    await addCronRun(run);
+    return run;
+  }
+
+  try {
+    run.result = await job.run();
+    run.status = 'success';
+  } catch (error) {
+    console.error(`Cron job ${name} failed:`, error);
+    run.status = 'failed';
+    run.error = error instanceof Error ? error.message : String(error);
+  } finally {
+    run.finishedAt = Date.now();
+    await releaseLock(`cron:${name}`, lockToken);
+  }
+
+  await addCronRun(run);
+  return run;
+}
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { buildDeepLinkUrl, MAX_DEEP_LINK_PROMPT_LENGTH, parseDeepLink } from './deepLinks';
+
+const BASE_URL = 'https://app.example';
+const TX_HASH = `0x${'ab'.repeat(32)}`;
+
+describe('buildDeepLinkUrl', () => {
+  it('links to the home page by default', () => {
+    expect(buildDeepLinkUrl({}, BASE_URL)).toBe('https://app.example/');
+  });
+
+  it('carries the tab, prompt and transaction as query parameters', () => {
+    expect(buildDeepLinkUrl({ path: '/share/1', tab: 'chat', prompt: 'Supply 1 USDC', tx: TX_HASH }, BASE_URL)).toBe(
+      `https://app.example/share/1?tab=chat&prompt=Supply+1+USDC&tx=${TX_HASH}`
+    );
+  });
+
+  it('truncates long prompts', () => {
+    const url = new URL(buildDeepLinkUrl({ prompt: 'a'.repeat(MAX_DEEP_LINK_PROMPT_LENGTH + 10) }, BASE_URL));
+    expect(url.searchParams.get('prompt')).toHaveLength(MAX_DEEP_LINK_PROMPT_LENGTH);
+  });
+
+  it.each([
+    ['a protocol-relative path', '//evil.example/x'],
+    ['a backslash path', '/\\evil.example/x'],
+    ['a path with a tab', '/\t/evil.example'],
+    ['an absolute URL', 'https://evil.example/x'],
+    ['a relative path', 'share/1'],
+  ])('keeps %s on the app origin', (_, path) => {
+    const url = new URL(buildDeepLinkUrl({ path, tab: 'chat' }, BASE_URL));
+    expect(url.origin).toBe(BASE_URL);
+    expect(url.pathname).toBe('/');
+    expect(url.searchParams.get('tab')).toBe('chat');
+  });
+});
+
+describe('parseDeepLink', () => {
+  it('reads a built link back', () => {
+    const url = new URL(buildDeepLinkUrl({ tab: 'chat', prompt: 'Borrow 5 USDT', tx: TX_HASH }, BASE_URL));
+    expect(parseDeepLink(url.search)).toEqual({ tab: 'chat', prompt: 'Borrow 5 USDT', tx: TX_HASH });
+  });
+
+  it('opens the chat for a prompt or transaction', () => {
+    expect(parseDeepLink('?prompt=hi')).toEqual({ tab: 'chat', prompt: 'hi' });
+    expect(parseDeepLink(`?tab=home&tx=${TX_HASH}`)).toEqual({ tab: 'chat', tx: TX_HASH });
+  });
+
+  it('ignores invalid values', () => {
+    expect(parseDeepLink('?tab=admin&tx=0x123&prompt=%20')).toBeNull();
+    expect(parseDeepLink('')).toBeNull();
+  });
+});
@@ -0,0 +1,65 @@
+import { APP_URL } from './constants';
+
+/**
+ * Deep links into the mini app, carried as query parameters of the URL the
+ * app is opened with, e.g. a notification's `targetUrl`:
+ *
+ * - `tab`: tab to open (`home` or `chat`)
+ * - `prompt`: instruction prefilled in the chat input
+ * - `tx`: transaction hash to show in the chat
+ *
+ * A prompt or transaction implies the chat tab. `path` selects another page
+ * of the app, e.g. `/share/123`.
+ */
+
+export type DeepLinkTab = 'home' | 'chat';
+
+export interface DeepLink {
+  /** Page path on the app's domain, `/` by default */
+  path?: string;
+  tab?: DeepLinkTab;
+  prompt?: string;
+  tx?: string;
+}
+
+/** Keeps notification target URLs under the 1024 characters clients accept */
+export const MAX_DEEP_LINK_PROMPT_LENGTH = 500;
+
+const TX_HASH_PATTERN = /^0x[a-fA-F0-9]{64}$/;
+
+/**
+ * Builds the URL for a deep link. Notification targets must be on the app's
+ * domain, so the link is always resolved against APP_URL.
+ */
+export function buildDeepLinkUrl(link: DeepLink, baseUrl: string = APP_URL): string {
+  const origin = new URL(baseUrl).origin;
+  let url = new URL(link.path?.startsWith('/') ? link.path : '/', baseUrl);
+  // Paths like `//host` or `/\host` resolve to another domain
+  if (url.origin !== origin) url = new URL('/', baseUrl);
+  if (link.tab) url.searchParams.set('tab', link.tab);
+  if (link.prompt) url.searchParams.set('prompt', link.prompt.slice(0, MAX_DEEP_LINK_PROMPT_LENGTH));
+  if (link.tx) url.searchParams.set('tx', link.tx);
+  return url.toString();
+}
+
+/**
+ * Reads a deep link from a URL query string, ignoring invalid values.
+ *
+ * @returns The link, or null when the query carries none
+ */
+export function parseDeepLink(search: string): DeepLink | null {
+  const params = new URLSearchParams(search);
+  const link: DeepLink = {};
+
+  const tab = params.get('tab');
+  if (tab === 'home' || tab === 'chat') link.tab = tab;
+
+  const prompt = params.get('prompt')?.trim();
+  if (prompt) link.prompt = prompt.slice(0, MAX_DEEP_LINK_PROMPT_LENGTH);
+
+  const tx = params.get('tx');
+  if (tx && TX_HASH_PATTERN.test(tx)) link.tx = tx;
+
+  if (link.prompt || link.tx) link.tab = 'chat';
+  return link.tab ? link : null;
+}
@@ -0,0 +1,155 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  decodeFunctionData,
+  encodeFunctionData,
+  encodeFunctionResult,
+  erc20Abi,
+  maxUint256,
+  parseUnits,
+  type Address,
+  type Hex,
+} from 'viem';
+import {
+  AAVE_V3_POOL_ADDRESS,
+  aaveOracleAbi,
+  aavePoolAbi,
+  aavePoolViewAbi,
+  VARIABLE_INTEREST_RATE_MODE,
+} from './aave';
+import { getHealthFactorRisk, projectHealthFactor } from './healthFactor';
+import { ARBITRUM_TOKENS } from './tokenUtils';
+import type { TxPlanEntry } from './agentSchema';
+
+const USER: Address = '0x1111111111111111111111111111111111111111';
+const USDC = ARBITRUM_TOKENS.USDC.address as Address;
+
+/** $1000 of collateral with an 80% liquidation threshold and $400 of debt: health factor 2 */
+const ACCOUNT = {
+  collateralUsd: 1000,
+  debtUsd: 400,
+  ltvBps: 7500n,
+  thresholdBps: 8000n,
+};
+
+const base = (usd: number) => parseUnits(String(usd), 8);
+
+/** Answers the Pool and Oracle reads of a projection through the RPC transport */
+function stubRpc() {
+  vi.stubGlobal('fetch', vi.fn(async (_url: string, init: RequestInit) => {
+    const { id, params } = JSON.parse(String(init.body));
+    const { data } = params[0] as { data: Hex };
+    let result: Hex;
+    try {
+      const call = decodeFunctionData({ abi: aavePoolViewAbi, data });
+      result = call.functionName === 'getUserAccountData'
+        ? encodeFunctionResult({
+            abi: aavePoolViewAbi,
+            functionName: 'getUserAccountData',
+            result: [
+              base(ACCOUNT.collateralUsd),
+              base(ACCOUNT.debtUsd),
+              0n,
+              ACCOUNT.thresholdBps,
+              ACCOUNT.ltvBps,
+              parseUnits('2', 18),
+            ],
+          })
+        : encodeFunctionResult({
+            abi: aavePoolViewAbi,
+            functionName: 'getConfiguration',
+            result: { data: ACCOUNT.ltvBps | (ACCOUNT.thresholdBps << 16n) },
+          });
+    } catch {
+      decodeFunctionData({ abi: aaveOracleAbi, data });
+      result = encodeFunctionResult({ abi: aaveOracleAbi, functionName: 'getAssetPrice', result: base(1) });
+    }
+    return new Response(JSON.stringify({ jsonrpc: '2.0', id, result }), {
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }));
+}
+
+function poolEntry(data: Hex): TxPlanEntry {
+  return { to: AAVE_V3_POOL_ADDRESS, data, value: '0', chainId: '42161' };
+}
+
+function borrow(usdc: string) {
+  return poolEntry(encodeFunctionData({
+    abi: aavePoolAbi,
+    functionName: 'borrow',
+    args: [USDC, parseUnits(usdc, 6), VARIABLE_INTEREST_RATE_MODE, 0, USER],
+  }));
+}
+
+function withdraw(amount: bigint) {
+  return poolEntry(encodeFunctionData({ abi: aavePoolAbi, functionName: 'withdraw', args: [USDC, amount, USER] }));
+}
+
+describe('getHealthFactorRisk', () => {
+  it('classifies health factors against the threshold', () => {
+    expect(getHealthFactorRisk(null)).toBe('safe');
+    expect(getHealthFactorRisk(1.5, 1.5)).toBe('safe');
+    expect(getHealthFactorRisk(1.2, 1.5)).toBe('warning');
+    expect(getHealthFactorRisk(0.99, 1.5)).toBe('blocked');
+  });
+});
+
+describe('projectHealthFactor', () => {
+  beforeEach(() => {
+    stubRpc();
+  });
+
+  it('projects a borrow onto the account debt', async () => {
+    const projection = await projectHealthFactor([borrow('100')], USER);
+    expect(projection).toMatchObject({ action: 'borrow', token: 'USDC', amountUsd: 100 });
+    expect(projection?.current.healthFactor).toBe(2);
+    expect(projection?.projected.totalDebtUsd).toBe(500);
+    expect(projection?.projected.healthFactor).toBeCloseTo(1.6);
+    expect(projection?.liquidationDrop).toBeCloseTo(0.375);
+    expect(projection?.liquidationPrice).toBeUndefined();
+    expect(projection?.risk).toBe('safe');
+  });
+
+  it('warns about borrows below the minimum health factor', async () => {
+    const projection = await projectHealthFactor([borrow('200')], USER);
+    expect(projection?.projected.healthFactor).toBeCloseTo(800 / 600);
+    expect(projection?.risk).toBe('warning');
+  });
+
+  it('blocks borrows that make the position liquidatable', async () => {
+    const projection = await projectHealthFactor([borrow('500')], USER);
+    expect(projection?.projected.healthFactor).toBeLessThan(1);
+    expect(projection?.risk).toBe('blocked');
+  });
+
+  it('removes withdrawn collateral and its liquidation threshold', async () => {
+    const projection = await projectHealthFactor([withdraw(parseUnits('300', 6))], USER);
+    expect(projection?.projected.totalCollateralUsd).toBe(700);
+    expect(projection?.projected.healthFactor).toBeCloseTo(560 / 400);
+    expect(projection?.liquidationPrice).toBeCloseTo(1 / 1.4);
+    expect(projection?.risk).toBe('warning');
+  });
+
+  it('never holds back supplies', async () => {
+    const approve = {
+      to: USDC,
+      data: encodeFunctionData({ abi: erc20Abi, functionName: 'approve', args: [AAVE_V3_POOL_ADDRESS, 1n] }),
+      value: '0',
+      chainId: '42161',
+    };
+    const supply = poolEntry(encodeFunctionData({
+      abi: aavePoolAbi,
+      functionName: 'supply',
+      args: [USDC, parseUnits('100', 6), USER, 0],
+    }));
+    const projection = await projectHealthFactor([approve, supply], USER);
+    expect(projection?.action).toBe('supply');
+    expect(projection?.projected.healthFactor).toBeCloseTo(880 / 400);
+    expect(projection?.risk).toBe('safe');
+  });
+
+  it('cannot project full-balance amounts', async () => {
+    expect(await projectHealthFactor([withdraw(maxUint256)], USER)).toBeNull();
+    expect(fetch).not.toHaveBeenCalled();
+  });
+});
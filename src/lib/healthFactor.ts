@@ -0,0 +1,228 @@
+import { formatUnits, maxUint256, type Abi, type Address } from 'viem';
+import { readContract } from 'viem/actions';
+import {
+  AAVE_BASE_CURRENCY_DECIMALS,
+  AAVE_V3_ORACLE_ADDRESS,
+  AAVE_V3_POOL_ADDRESS,
+  aaveOracleAbi,
+  aavePoolViewAbi,
+} from './aave';
+import { MIN_HEALTH_FACTOR } from './constants';
+import { getTokenInfo } from './tokenUtils';
+import { decodeTxStep, getMainTxStep, type TxStepAction } from './txDecoder';
+import { getSimulationClient } from './txSimulation';
+import type { TxPlanEntry } from './agentSchema';
+
+/**
+ * Aave V3 account health on Arbitrum and its projection after a txPlan.
+ *
+ * The projection applies the plan's main action to the account totals
+ * returned by `getUserAccountData`, using the asset's oracle price and
+ * reserve parameters. A withdrawn asset is assumed to be enabled as
+ * collateral, which errs on the side of a lower health factor.
+ */
+
+export interface AccountHealth {
+  totalCollateralUsd: number;
+  totalDebtUsd: number;
+  /** Null when the account has no debt */
+  healthFactor: number | null;
+  /** Debt as a fraction of collateral */
+  loanToValue: number;
+  /** Weighted maximum LTV of the collateral, as a fraction */
+  maxLoanToValue: number;
+  /** Weighted liquidation threshold of the collateral, as a fraction */
+  liquidationThreshold: number;
+}
+
+/**
+ * - safe: the projected health factor stays at or above MIN_HEALTH_FACTOR
+ * - warning: it falls below MIN_HEALTH_FACTOR but stays above 1
+ * - blocked: the position would be liquidatable
+ */
+export type HealthFactorRisk = 'safe' | 'warning' | 'blocked';
+
+export interface HealthFactorProjection {
+  action: TxStepAction;
+  token: string;
+  amountUsd: number;
+  current: AccountHealth;
+  projected: AccountHealth;
+  /** Fraction the collateral value can fall before liquidation, null without debt */
+  liquidationDrop: number | null;
+  /** Price of `token` at which the projected position is liquidatable, for collateral actions */
+  liquidationPrice?: number;
+  risk: HealthFactorRisk;
+  /** Threshold the projection was checked against */
+  minHealthFactor: number;
+}
+
+type PositionClient = ReturnType<typeof getSimulationClient>;
+
+/** Aave stores percentages in basis points */
+const BPS = 10_000;
+
+/**
+ * `readContract` with loosely typed parameters: viem's inferred parameter
+ * type demands `authorizationList` under this tsconfig.
+ */
+const readView = readContract as unknown as (
+  client: PositionClient,
+  parameters: { address: Address; abi: Abi; functionName: string; args: readonly unknown[] }
+) => Promise<unknown>;
+
+const toUsd = (base: bigint) => Number(formatUnits(base, AAVE_BASE_CURRENCY_DECIMALS));
+
+/**
+ * Assembles account health from collateral, debt and the collateral-weighted
+ * LTV and liquidation threshold sums (in USD).
+ */
+function toAccountHealth(collateral: number, debt: number, weightedLtv: number, weightedThreshold: number): AccountHealth {
+  return {
+    totalCollateralUsd: collateral,
+    totalDebtUsd: debt,
+    healthFactor: debt > 0 ? weightedThreshold / debt : null,
+    loanToValue: collateral > 0 ? debt / collateral : 0,
+    maxLoanToValue: collateral > 0 ? weightedLtv / collateral : 0,
+    liquidationThreshold: collateral > 0 ? weightedThreshold / collateral : 0,
+  };
+}
+
+/**
+ * Classifies a health factor against the configured threshold.
+ */
+export function getHealthFactorRisk(healthFactor: number | null, minHealthFactor = MIN_HEALTH_FACTOR): HealthFactorRisk {
+  if (healthFactor === null || healthFactor >= minHealthFactor) return 'safe';
+  return healthFactor < 1 ? 'blocked' : 'warning';
+}
+
+/**
+ * Reads the account totals from the pool, with LTV and liquidation threshold
+ * as collateral-weighted USD sums so actions can be applied to them.
+ */
+async function readAccountTotals(client: PositionClient, account: Address) {
+  const [collateralBase, debtBase, , thresholdBps, ltvBps, healthFactor] = (await readView(client, {
+    address: AAVE_V3_POOL_ADDRESS,
+    abi: aavePoolViewAbi,
+    functionName: 'getUserAccountData',
+    args: [account],
+  })) as readonly bigint[];
+  const collateral = toUsd(collateralBase);
+  return {
+    collateral,
+    debt: toUsd(debtBase),
+    weightedLtv: (collateral * Number(ltvBps)) / BPS,
+    weightedThreshold: (collateral * Number(thresholdBps)) / BPS,
+    // The pool's own figure also accounts for isolation mode and e-mode
+    healthFactor: healthFactor === maxUint256 ? null : Number(formatUnits(healthFactor, 18)),
+  };
+}
+
+/**
+ * Reads the current Aave position of `account`.
+ */
+export async function getAccountHealth(
+  account: Address,
+  client: PositionClient = getSimulationClient()
+): Promise<AccountHealth> {
+  const { collateral, debt, weightedLtv, weightedThreshold, healthFactor } =
+    await readAccountTotals(client, account);
+  return { ...toAccountHealth(collateral, debt, weightedLtv, weightedThreshold), healthFactor };
+}
+
+/**
+ * Projects the health of `account` after executing `txPlan`. Resolves to
+ * null when the plan has no Aave action with an exact amount, e.g. a
+ * withdrawal of the full balance.
+ */
+export async function projectHealthFactor(
+  txPlan: TxPlanEntry[],
+  account: Address,
+  client: PositionClient = getSimulationClient()
+): Promise<HealthFactorProjection | null> {
+  const main = getMainTxStep(txPlan.map(decodeTxStep));
+  if (!main?.token || main.amount === undefined || main.isMaxAmount) return null;
+
+  // Native ETH is priced and configured as its WETH reserve
+  const asset = (main.token.address ?? getTokenInfo('WETH').address) as Address;
+
+  const [totals, price, configuration] = await Promise.all([
+    readAccountTotals(client, account),
+    readView(client, {
+      address: AAVE_V3_ORACLE_ADDRESS,
+      abi: aaveOracleAbi,
+      functionName: 'getAssetPrice',
+      args: [asset],
+    }) as Promise<bigint>,
+    readView(client, {
+      address: AAVE_V3_POOL_ADDRESS,
+      abi: aavePoolViewAbi,
+      functionName: 'getConfiguration',
+      args: [asset],
+    }).then((result) => (result as { data: bigint }).data),
+  ]);
+  const { collateral, debt, weightedLtv, weightedThreshold } = totals;
+
+  // Reserve configuration bitmap: bits 0-15 LTV, 16-31 liquidation threshold
+  const assetLtv = Number(configuration & 0xffffn) / BPS;
+  const assetThreshold = Number((configuration >> 16n) & 0xffffn) / BPS;
+
+  const tokenPrice = toUsd(price);
+  const amountUsd = Number(formatUnits(main.amount, main.token.decimals)) * tokenPrice;
+
+  const current = {
+    ...toAccountHealth(collateral, debt, weightedLtv, weightedThreshold),
+    healthFactor: totals.healthFactor,
+  };
+
+  let projected: AccountHealth;
+  switch (main.action) {
+    case 'supply':
+      projected = toAccountHealth(
+        collateral + amountUsd,
+        debt,
+        weightedLtv + amountUsd * assetLtv,
+        weightedThreshold + amountUsd * assetThreshold
+      );
+      break;
+    case 'withdraw':
+      projected = toAccountHealth(
+        Math.max(collateral - amountUsd, 0),
+        debt,
+        Math.max(weightedLtv - amountUsd * assetLtv, 0),
+        Math.max(weightedThreshold - amountUsd * assetThreshold, 0)
+      );
+      break;
+    case 'borrow':
+      projected = toAccountHealth(collateral, debt + amountUsd, weightedLtv, weightedThreshold);
+      break;
+    case 'repay':
+      projected = toAccountHealth(collateral, Math.max(debt - amountUsd, 0), weightedLtv, weightedThreshold);
+      break;
+    default:
+      return null;
+  }
+
+  const isCollateralAction = main.action === 'supply' || main.action === 'withdraw';
+  const liquidationDrop =
+    projected.healthFactor === null ? null : Math.max(1 - 1 / projected.healthFactor, 0);
+
+  return {
+    action: main.action,
+    token: main.token.symbol,
+    amountUsd,
+    current,
+    projected,
+    liquidationDrop,
+    // Only meaningful when the supplied or withdrawn asset backs the debt
+    liquidationPrice:
+      isCollateralAction && projected.healthFactor !== null
+        ? tokenPrice / projected.healthFactor
+        : undefined,
+    // Supplying and repaying only improve the position, so they are never held back
+    risk: main.action === 'borrow' || main.action === 'withdraw'
+      ? getHealthFactorRisk(projected.healthFactor)
+      : 'safe',
+    minHealthFactor: MIN_HEALTH_FACTOR,
+  };
+}
@@ -0,0 +1,166 @@
+import type { Address } from 'viem';
+import { getAccountHealth } from './healthFactor';
+import { getHealthMonitor, getHealthMonitorFids, setHealthMonitor, updateHealthMonitorCheck } from './kv';
+import { sendNeynarMiniAppNotification } from './neynar';
+import { sendMiniAppNotification } from './notifs';
+
+/**
+ * Opt-in monitoring of a user's Aave position on Arbitrum.
+ *
+ * Subscriptions are stored in KV per FID. The monitoring job reads the
+ * health factor of every subscribed wallet and notifies the user when it is
+ * below one of their thresholds. Each threshold has its own cooldown, so a
+ * position hovering around a threshold alerts once per cooldown, while a
+ * drop past a lower threshold alerts right away.
+ *
+ * Configuration (optional):
+ * - HEALTH_ALERT_COOLDOWN_MINUTES: minimum time between two alerts for the
+ *   same threshold (default 360)
+ */
+
+export interface HealthMonitorSubscription {
+  fid: number;
+  address: string;
+  /** Health factors to alert below, sorted from highest to lowest */
+  thresholds: number[];
+  createdAt: number;
+  updatedAt: number;
+  lastCheckedAt?: number;
+  /** Null when the account had no debt */
+  lastHealthFactor?: number | null;
+  /** Time of the last alert per threshold, keyed by the threshold */
+  lastAlerts: Record<string, number>;
+}
+
+/** Outcome of one check, saved without touching the rest of the subscription */
+export interface HealthMonitorCheck {
+  lastCheckedAt: number;
+  lastHealthFactor: number | null;
+  /** Threshold an alert was sent for, as a `lastAlerts` key */
+  alertedThreshold?: string;
+}
+
+export interface HealthMonitorRunResult {
+  checked: number;
+  alerted: number;
+  failed: number;
+}
+
+const HEALTH_ALERT_COOLDOWN_MS =
+  (Number(process.env.HEALTH_ALERT_COOLDOWN_MINUTES) || 360) * 60 * 1000;
+
+/**
+ * Normalizes user-supplied thresholds: unique, sorted from highest to lowest.
+ */
+export function normalizeThresholds(thresholds: number[]): number[] {
+  return [...new Set(thresholds)].sort((a, b) => b - a);
+}
+
+/**
+ * Creates or updates the subscription of `fid`, keeping the alert history of
+ * thresholds that did not change.
+ */
+export async function subscribeHealthMonitor(
+  fid: number,
+  address: string,
+  thresholds: number[]
+): Promise<HealthMonitorSubscription> {
+  const existing = await getHealthMonitor(fid);
+  const now = Date.now();
+  const sameAddress = existing?.address.toLowerCase() === address.toLowerCase();
+  const normalized = normalizeThresholds(thresholds);
+
+  const subscription: HealthMonitorSubscription = {
+    fid,
+    address,
+    thresholds: normalized,
+    createdAt: existing?.createdAt ?? now,
+    updatedAt: now,
+    lastCheckedAt: sameAddress ? existing.lastCheckedAt : undefined,
+    lastHealthFactor: sameAddress ? existing.lastHealthFactor : undefined,
+    lastAlerts: sameAddress
+      ? Object.fromEntries(
+          Object.entries(existing.lastAlerts).filter(([threshold]) => normalized.includes(Number(threshold)))
+        )
+      : {},
+  };
+  await setHealthMonitor(subscription);
+  return subscription;
+}
+
+/**
+ * The threshold to alert for: the lowest one the health factor is below,
+ * unless it is still cooling down.
+ */
+function getDueThreshold(subscription: HealthMonitorSubscription, healthFactor: number | null, now: number) {
+  if (healthFactor === null) return undefined;
+  const crossed = subscription.thresholds.filter((threshold) => healthFactor < threshold);
+  if (crossed.length === 0) return undefined;
+
+  const lowest = Math.min(...crossed);
+  const lastAlert = subscription.lastAlerts[String(lowest)] ?? 0;
+  return now - lastAlert >= HEALTH_ALERT_COOLDOWN_MS ? lowest : undefined;
+}
+
+function sendHealthAlert(fid: number, healthFactor: number, threshold: number, now: number) {
+  // Tokens are managed by Neynar when it is configured, as in /api/send-notification
+  const neynarEnabled = process.env.NEYNAR_API_KEY && process.env.NEYNAR_CLIENT_ID;
+  const sendNotification = neynarEnabled ? sendNeynarMiniAppNotification : sendMiniAppNotification;
+  return sendNotification({
+    fid,
+    title: healthFactor < 1 ? '🚨 Position liquidatable' : `⚠️ Health factor ${healthFactor.toFixed(2)}`,
+    body: `Your Aave health factor on Arbitrum fell below ${threshold}. Repay debt or add collateral to avoid liquidation.`,
+    target: { tab: 'chat', prompt: 'Show my lending positions' },
+    category: 'liquidation-alerts',
+    // One alert per threshold and cooldown window, even if a run is retried
+    idempotencyKey: `health-alert:${threshold}:${Math.floor(now / HEALTH_ALERT_COOLDOWN_MS)}`,
+  });
+}
+
+/**
+ * Checks one subscription and sends an alert if one is due.
+ *
+ * @returns Whether an alert was sent
+ */
+export async function checkHealthMonitor(
+  subscription: HealthMonitorSubscription,
+  now = Date.now()
+): Promise<boolean> {
+  const { healthFactor } = await getAccountHealth(subscription.address as Address);
+  const threshold = getDueThreshold(subscription, healthFactor, now);
+
+  const check: HealthMonitorCheck = { lastCheckedAt: now, lastHealthFactor: healthFactor };
+  if (threshold !== undefined && healthFactor !== null) {
+    const result = await sendHealthAlert(subscription.fid, healthFactor, threshold, now);
+    if (result.state === 'success') {
+      check.alertedThreshold = String(threshold);
+    } else {
+      console.warn(`Health alert for FID ${subscription.fid} not delivered:`, result);
+    }
+  }
+
+  await updateHealthMonitorCheck(subscription.fid, subscription.address, check);
+  return check.alertedThreshold !== undefined;
+}
+
+/**
+ * Checks every subscription. Failures are counted and logged so one bad
+ * wallet or RPC error does not stop the run.
+ */
+export async function runHealthMonitorChecks(now = Date.now()): Promise<HealthMonitorRunResult> {
+  const result: HealthMonitorRunResult = { checked: 0, alerted: 0, failed: 0 };
+
+  for (const fid of await getHealthMonitorFids()) {
+    try {
+      const subscription = await getHealthMonitor(fid);
+      if (!subscription) continue;
+      if (await checkHealthMonitor(subscription, now)) result.alerted++;
+      result.checked++;
+    } catch (error) {
+      console.error(`Health check for FID ${fid} failed:`, error);
+      result.failed++;
+    }
+  }
+
+  return result;
+}
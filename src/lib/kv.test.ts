@@ -0,0 +1,112 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  acquireLock,
+  consumeSiweNonce,
+  getAgentConversation,
+  getCachedVerifiedAddresses,
+  getQuickAuthClaims,
+  hitRateLimit,
+  releaseLock,
+  setAgentConversation,
+  setCachedVerifiedAddresses,
+  setQuickAuthClaims,
+  setSiweNonce,
+} from './kv';
+
+// Runs against the in-memory store, the test environment has no KV env vars
+
+const ADDRESS = '0xAbCdEf0000000000000000000000000000000001';
+
+describe('in-memory KV', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2025-01-15T12:00:00Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('hitRateLimit', () => {
+    it('reports the remaining hits and the time until the window has room', async () => {
+      const now = Date.now();
+      expect(await hitRateLimit('kv:window', 2, 1000, now)).toEqual({ allowed: true, remaining: 1, retryAfterMs: 0 });
+      expect(await hitRateLimit('kv:window', 2, 1000, now + 200)).toEqual({ allowed: true, remaining: 0, retryAfterMs: 0 });
+      expect(await hitRateLimit('kv:window', 2, 1000, now + 300)).toEqual({ allowed: false, remaining: 0, retryAfterMs: 700 });
+      expect((await hitRateLimit('kv:window', 2, 1000, now + 1000)).allowed).toBe(true);
+    });
+
+    it('forgets hits once the window has passed', async () => {
+      await hitRateLimit('kv:expiry', 1, 1000);
+      expect((await hitRateLimit('kv:expiry', 1, 1000)).allowed).toBe(false);
+      vi.advanceTimersByTime(1000);
+      expect(await hitRateLimit('kv:expiry', 1, 1000)).toEqual({ allowed: true, remaining: 0, retryAfterMs: 0 });
+    });
+  });
+
+  describe('locks', () => {
+    it('are held until released by their token', async () => {
+      const token = await acquireLock('kv:lock', 60);
+      expect(token).toEqual(expect.any(String));
+      expect(await acquireLock('kv:lock', 60)).toBeNull();
+
+      await releaseLock('kv:lock', 'someone-else');
+      expect(await acquireLock('kv:lock', 60)).toBeNull();
+
+      await releaseLock('kv:lock', token!);
+      expect(await acquireLock('kv:lock', 60)).toEqual(expect.any(String));
+    });
+
+    it('expire after their TTL', async () => {
+      await acquireLock('kv:lock-ttl', 30);
+      vi.advanceTimersByTime(29 * 1000);
+      expect(await acquireLock('kv:lock-ttl', 30)).toBeNull();
+      vi.advanceTimersByTime(1000);
+      expect(await acquireLock('kv:lock-ttl', 30)).toEqual(expect.any(String));
+    });
+  });
+
+  describe('SIWE nonces', () => {
+    it('can be consumed once', async () => {
+      await setSiweNonce('nonce-1', 60);
+      expect(await consumeSiweNonce('nonce-1')).toBe(true);
+      expect(await consumeSiweNonce('nonce-1')).toBe(false);
+    });
+
+    it('cannot be consumed after they expire', async () => {
+      await setSiweNonce('nonce-2', 60);
+      vi.advanceTimersByTime(60 * 1000);
+      expect(await consumeSiweNonce('nonce-2')).toBe(false);
+    });
+  });
+
+  it('keeps Quick Auth claims until the token expires', async () => {
+    const claims = { fid: 1, expiresAt: Date.now() + 1000 };
+    await setQuickAuthClaims('token-hash', claims);
+    expect(await getQuickAuthClaims('token-hash')).toEqual(claims);
+    vi.advanceTimersByTime(1000);
+    expect(await getQuickAuthClaims('token-hash')).toBeNull();
+  });
+
+  it('keeps verified addresses for their TTL', async () => {
+    await setCachedVerifiedAddresses(1, [ADDRESS], 300);
+    vi.advanceTimersByTime(299 * 1000);
+    expect(await getCachedVerifiedAddresses(1)).toEqual([ADDRESS]);
+    vi.advanceTimersByTime(1000);
+    expect(await getCachedVerifiedAddresses(1)).toBeNull();
+  });
+
+  it('expires agent conversations a week after the last update', async () => {
+    const conversation = { contextId: 'context-1', history: [], updatedAt: Date.now() };
+    await setAgentConversation(ADDRESS, 'session-1', conversation);
+    expect(await getAgentConversation(ADDRESS.toLowerCase(), 'session-1')).toEqual(conversation);
+
+    vi.advanceTimersByTime(6 * 24 * 60 * 60 * 1000);
+    await setAgentConversation(ADDRESS, 'session-1', conversation);
+    vi.advanceTimersByTime(6 * 24 * 60 * 60 * 1000);
+    expect(await getAgentConversation(ADDRESS, 'session-1')).toEqual(conversation);
+
+    vi.advanceTimersByTime(24 * 60 * 60 * 1000);
+    expect(await getAgentConversation(ADDRESS, 'session-1')).toBeNull();
+  });
+});
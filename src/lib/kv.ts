@@ -1,9 +1,62 @@
 import { MiniAppNotificationDetails } from '@farcaster/miniapp-sdk';
 import { Redis } from '@upstash/redis';
 import { APP_NAME } from './constants';
+import type { StoredChatSession } from './chatSessions';
+import type { AgentConversation } from './lendingAgent';
+import type { HealthMonitorCheck, HealthMonitorSubscription } from './healthMonitor';
+import type { CronRun } from './cron';
+import type { BroadcastCampaign } from './broadcast';
+import type { NotificationLogEntry } from './notificationLog';
+import type { SiweSession } from './siwe';
+import type { QuickAuthClaims } from './auth';
+import {
+  withDefaultPreferences,
+  type NotificationPreferences,
+} from './notificationPreferences';
 
 // In-memory fallback storage
-const localStore = new Map<string, MiniAppNotificationDetails>();
+const localStore = new Map<string, unknown>();
+
+/** When in-memory entries expire, for keys Redis would give a TTL */
+const localExpiries = new Map<string, number>();
+
+/** Expired in-memory entries are swept on write at most this often */
+const LOCAL_SWEEP_INTERVAL_MS = 60 * 1000;
+let lastLocalSweepAt = 0;
+
+function deleteLocal(key: string): void {
+  localStore.delete(key);
+  localExpiries.delete(key);
+}
+
+/** Reads an in-memory entry, dropping it if it has expired */
+function getLocal<T>(key: string): T | undefined {
+  const expiresAt = localExpiries.get(key);
+  if (expiresAt !== undefined && expiresAt <= Date.now()) {
+    deleteLocal(key);
+    return undefined;
+  }
+  return localStore.get(key) as T | undefined;
+}
+
+/**
+ * Stores an in-memory entry until `expiresAt`, sweeping expired entries so
+ * keys that are never read again do not pile up.
+ */
+function setLocalWithExpiry(key: string, value: unknown, expiresAt: number): void {
+  const now = Date.now();
+  if (now - lastLocalSweepAt >= LOCAL_SWEEP_INTERVAL_MS) {
+    lastLocalSweepAt = now;
+    for (const [expiringKey, expiringAt] of localExpiries) {
+      if (expiringAt <= now) deleteLocal(expiringKey);
+    }
+  }
+  localStore.set(key, value);
+  localExpiries.set(key, expiresAt);
+}
+
+/** Agent conversations expire after a week without activity */
+const AGENT_CONVERSATION_TTL_SECONDS = 7 * 24 * 60 * 60;
 
 // Use Redis if KV env vars are present, otherwise use in-memory
 const useRedis = process.env.KV_REST_API_URL && process.env.KV_REST_API_TOKEN;
@@ -18,6 +71,46 @@ function getUserNotificationDetailsKey(fid: number): string {
   return `${APP_NAME}:user:${fid}`;
 }
 
+/** Set of FIDs with a notification token, so broadcasts can list them */
+const NOTIFICATION_USERS_INDEX_KEY = `${APP_NAME}:notification-users`;
+
+/** Set once tokens stored before the index existed were added to it */
+const NOTIFICATION_USERS_BACKFILLED_KEY = `${NOTIFICATION_USERS_INDEX_KEY}:backfilled`;
+
+/**
+ * Adds the FIDs of notification tokens stored before the index existed, by
+ * scanning the token keys once. Later tokens are indexed when stored.
+ */
+async function backfillNotificationUsersIndex(client: Redis): Promise<void> {
+  if (await client.get(NOTIFICATION_USERS_BACKFILLED_KEY)) return;
+
+  const prefix = `${APP_NAME}:user:`;
+  let cursor = '0';
+  do {
+    const [next, keys] = await client.scan(cursor, { match: `${prefix}*`, count: 1000 });
+    // Skips the preferences and notification log stored under the same prefix
+    const fids = keys
+      .map((key) => key.slice(prefix.length))
+      .filter((fid) => /^\d+$/.test(fid))
+      .map(Number);
+    if (fids.length > 0) {
+      await client.sadd(NOTIFICATION_USERS_INDEX_KEY, fids[0], ...fids.slice(1));
+    }
+    cursor = String(next);
+  } while (cursor !== '0');
+
+  await client.set(NOTIFICATION_USERS_BACKFILLED_KEY, Date.now());
+}
+
+function getLocalNotificationUsersIndex(): Set<number> {
+  let index = localStore.get(NOTIFICATION_USERS_INDEX_KEY) as Set<number> | undefined;
+  if (!index) {
+    index = new Set();
+    localStore.set(NOTIFICATION_USERS_INDEX_KEY, index);
+  }
+  return index;
+}
+
 export async function getUserNotificationDetails(
   fid: number
 ): Promise<MiniAppNotificationDetails | null> {
@@ -25,7 +118,7 @@ export async function getUserNotificationDetails(
   if (redis) {
     return await redis.get<MiniAppNotificationDetails>(key);
   }
-  return localStore.get(key) || null;
+  return (localStore.get(key) as MiniAppNotificationDetails) || null;
 }
 
 export async function setUserNotificationDetails(
@@ -35,8 +128,10 @@ export async function setUserNotificationDetails(
   const key = getUserNotificationDetailsKey(fid);
   if (redis) {
     await redis.set(key, notificationDetails);
+    await redis.sadd(NOTIFICATION_USERS_INDEX_KEY, fid);
   } else {
     localStore.set(key, notificationDetails);
+    getLocalNotificationUsersIndex().add(fid);
   }
 }
 
@@ -46,7 +141,536 @@ export async function deleteUserNotificationDetails(
   const key = getUserNotificationDetailsKey(fid);
   if (redis) {
     await redis.del(key);
+    await redis.srem(NOTIFICATION_USERS_INDEX_KEY, fid);
+  } else {
+    localStore.delete(key);
+    getLocalNotificationUsersIndex().delete(fid);
+  }
+}
+
+export async function getNotificationUserFids(): Promise<number[]> {
+  if (redis) {
+    await backfillNotificationUsersIndex(redis);
+    const fids = await redis.smembers<number[]>(NOTIFICATION_USERS_INDEX_KEY);
+    return fids.map(Number);
+  }
+  return [...getLocalNotificationUsersIndex()];
+}
+
+function getNotificationPreferencesKey(fid: number): string {
+  return `${getUserNotificationDetailsKey(fid)}:preferences`;
+}
+
+/**
+ * Kept when the notification token is deleted, so re-adding the app
+ * restores the user's choices.
+ */
+export async function getNotificationPreferences(
+  fid: number
+): Promise<NotificationPreferences> {
+  const key = getNotificationPreferencesKey(fid);
+  if (redis) {
+    return withDefaultPreferences(await redis.get<NotificationPreferences>(key));
+  }
+  return withDefaultPreferences((localStore.get(key) as NotificationPreferences) || null);
+}
+
+export async function setNotificationPreferences(
+  fid: number,
+  preferences: NotificationPreferences
+): Promise<void> {
+  const key = getNotificationPreferencesKey(fid);
+  if (redis) {
+    await redis.set(key, preferences);
+  } else {
+    localStore.set(key, preferences);
+  }
+}
+
+function getNotificationLogKey(fid: number): string {
+  return `${getUserNotificationDetailsKey(fid)}:notifications`;
+}
+
+/** Newest first */
+export async function getNotificationLog(
+  fid: number
+): Promise<NotificationLogEntry[]> {
+  const key = getNotificationLogKey(fid);
+  if (redis) {
+    return (await redis.get<NotificationLogEntry[]>(key)) || [];
+  }
+  return (localStore.get(key) as NotificationLogEntry[]) || [];
+}
+
+export async function setNotificationLog(
+  fid: number,
+  entries: NotificationLogEntry[]
+): Promise<void> {
+  const key = getNotificationLogKey(fid);
+  if (redis) {
+    await redis.set(key, entries);
+  } else {
+    localStore.set(key, entries);
+  }
+}
+
+function getChatSessionsKey(fid: number, address: string): string {
+  return `${APP_NAME}:chat:${fid}:${address.toLowerCase()}`;
+}
+
+export async function getChatSessions(
+  fid: number,
+  address: string
+): Promise<StoredChatSession[] | null> {
+  const key = getChatSessionsKey(fid, address);
+  if (redis) {
+    return await redis.get<StoredChatSession[]>(key);
+  }
+  return (localStore.get(key) as StoredChatSession[]) || null;
+}
+
+export async function setChatSessions(
+  fid: number,
+  address: string,
+  sessions: StoredChatSession[]
+): Promise<void> {
+  const key = getChatSessionsKey(fid, address);
+  if (redis) {
+    await redis.set(key, sessions);
+  } else {
+    localStore.set(key, sessions);
+  }
+}
+
+function getAgentConversationKey(address: string, sessionId: string): string {
+  return `${APP_NAME}:agent-context:${address.toLowerCase()}:${sessionId}`;
+}
+
+export async function getAgentConversation(
+  address: string,
+  sessionId: string
+): Promise<AgentConversation | null> {
+  const key = getAgentConversationKey(address, sessionId);
+  if (redis) {
+    return await redis.get<AgentConversation>(key);
+  }
+  return getLocal<AgentConversation>(key) || null;
+}
+
+export async function setAgentConversation(
+  address: string,
+  sessionId: string,
+  conversation: AgentConversation
+): Promise<void> {
+  const key = getAgentConversationKey(address, sessionId);
+  if (redis) {
+    await redis.set(key, conversation, { ex: AGENT_CONVERSATION_TTL_SECONDS });
+  } else {
+    setLocalWithExpiry(key, conversation, Date.now() + AGENT_CONVERSATION_TTL_SECONDS * 1000);
+  }
+}
+
+function getHealthMonitorKey(fid: number): string {
+  return `${APP_NAME}:health-monitor:${fid}`;
+}
+
+/** Set of FIDs with a health monitor, so the job can list them */
+const HEALTH_MONITOR_INDEX_KEY = `${APP_NAME}:health-monitors`;
+
+function getLocalHealthMonitorIndex(): Set<number> {
+  let index = localStore.get(HEALTH_MONITOR_INDEX_KEY) as Set<number> | undefined;
+  if (!index) {
+    index = new Set();
+    localStore.set(HEALTH_MONITOR_INDEX_KEY, index);
+  }
+  return index;
+}
+
+export async function getHealthMonitor(
+  fid: number
+): Promise<HealthMonitorSubscription | null> {
+  const key = getHealthMonitorKey(fid);
+  if (redis) {
+    return await redis.get<HealthMonitorSubscription>(key);
+  }
+  return (localStore.get(key) as HealthMonitorSubscription) || null;
+}
+
+export async function setHealthMonitor(
+  subscription: HealthMonitorSubscription
+): Promise<void> {
+  const key = getHealthMonitorKey(subscription.fid);
+  if (redis) {
+    await redis.set(key, subscription);
+    await redis.sadd(HEALTH_MONITOR_INDEX_KEY, subscription.fid);
+  } else {
+    localStore.set(key, subscription);
+    getLocalHealthMonitorIndex().add(subscription.fid);
+  }
+}
+
+/**
+ * Merges the outcome of a check into the stored subscription, touching only
+ * the check fields, so a subscription saved meanwhile is not overwritten.
+ * Nothing is written if the subscription was deleted or moved to another
+ * wallet.
+ */
+const UPDATE_HEALTH_MONITOR_SCRIPT = `
+local current = redis.call("get", KEYS[1])
+if not current then return 0 end
+local subscription = cjson.decode(current)
+if string.lower(subscription.address) ~= string.lower(ARGV[1]) then return 0 end
+local check = cjson.decode(ARGV[2])
+subscription.lastCheckedAt = check.lastCheckedAt
+subscription.lastHealthFactor = check.lastHealthFactor
+if check.alertedThreshold then
+  subscription.lastAlerts[check.alertedThreshold] = check.lastCheckedAt
+end
+redis.call("set", KEYS[1], cjson.encode(subscription))
+return 1
+`;
+
+export async function updateHealthMonitorCheck(
+  fid: number,
+  address: string,
+  check: HealthMonitorCheck
+): Promise<void> {
+  const key = getHealthMonitorKey(fid);
+  if (redis) {
+    await redis.eval(UPDATE_HEALTH_MONITOR_SCRIPT, [key], [address, JSON.stringify(check)]);
+    return;
+  }
+  const subscription = localStore.get(key) as HealthMonitorSubscription | undefined;
+  if (!subscription || subscription.address.toLowerCase() !== address.toLowerCase()) return;
+  localStore.set(key, {
+    ...subscription,
+    lastCheckedAt: check.lastCheckedAt,
+    lastHealthFactor: check.lastHealthFactor,
+    lastAlerts: check.alertedThreshold
+      ? { ...subscription.lastAlerts, [check.alertedThreshold]: check.lastCheckedAt }
+      : subscription.lastAlerts,
+  });
+}
+
+export async function deleteHealthMonitor(fid: number): Promise<void> {
+  const key = getHealthMonitorKey(fid);
+  if (redis) {
+    await redis.del(key);
+    await redis.srem(HEALTH_MONITOR_INDEX_KEY, fid);
   } else {
     localStore.delete(key);
+    getLocalHealthMonitorIndex().delete(fid);
+  }
+}
+
+export async function getHealthMonitorFids(): Promise<number[]> {
+  if (redis) {
+    const fids = await redis.smembers<number[]>(HEALTH_MONITOR_INDEX_KEY);
+    return fids.map(Number);
+  }
+  return [...getLocalHealthMonitorIndex()];
+}
+
+function getLockKey(name: string): string {
+  return `${APP_NAME}:lock:${name}`;
+}
+
+/** Deletes a lock only while it still holds the caller's token */
+const RELEASE_LOCK_SCRIPT = `
+if redis.call("get", KEYS[1]) == ARGV[1] then
+  return redis.call("del", KEYS[1])
+end
+return 0
+`;
+
+/**
+ * Acquires a named lock for `ttlSeconds`.
+ *
+ * @returns A token to release the lock with, or null if it is held
+ */
+export async function acquireLock(
+  name: string,
+  ttlSeconds: number
+): Promise<string | null> {
+  const key = getLockKey(name);
+  const token = crypto.randomUUID();
+  if (redis) {
+    const result = await redis.set(key, token, { nx: true, ex: ttlSeconds });
+    return result === 'OK' ? token : null;
+  }
+  if (getLocal(key)) {
+    return null;
+  }
+  setLocalWithExpiry(key, token, Date.now() + ttlSeconds * 1000);
+  return token;
+}
+
+export async function releaseLock(name: string, token: string): Promise<void> {
+  const key = getLockKey(name);
+  if (redis) {
+    await redis.eval(RELEASE_LOCK_SCRIPT, [key], [token]);
+    return;
+  }
+  if (getLocal<string>(key) === token) {
+    deleteLocal(key);
+  }
+}
+
+function getRateLimitKey(key: string): string {
+  return `${APP_NAME}:rate-limit:${key}`;
+}
+
+/**
+ * Sliding window log: drops hits older than the window, then records the
+ * hit if the window has room. Returns {allowed, remaining, retryAfterMs}.
+ */
+const RATE_LIMIT_SCRIPT = `
+local now = tonumber(ARGV[1])
+local window = tonumber(ARGV[2])
+local limit = tonumber(ARGV[3])
+redis.call("zremrangebyscore", KEYS[1], "-inf", now - window)
+local count = redis.call("zcard", KEYS[1])
+if count < limit then
+  redis.call("zadd", KEYS[1], now, ARGV[4])
+  redis.call("pexpire", KEYS[1], window)
+  return {1, limit - count - 1, 0}
+end
+local oldest = redis.call("zrange", KEYS[1], 0, 0, "WITHSCORES")
+return {0, 0, tonumber(oldest[2]) + window - now}
+`;
+
+export interface RateLimitHit {
+  allowed: boolean;
+  remaining: number;
+  /** Time until the window has room again, 0 when allowed */
+  retryAfterMs: number;
+}
+
+/**
+ * Records a hit against `key` if fewer than `limit` hits happened in the
+ * last `windowMs`.
+ */
+export async function hitRateLimit(
+  key: string,
+  limit: number,
+  windowMs: number,
+  now = Date.now()
+): Promise<RateLimitHit> {
+  const rateLimitKey = getRateLimitKey(key);
+  if (redis) {
+    const [allowed, remaining, retryAfterMs] = await redis.eval<string[], number[]>(
+      RATE_LIMIT_SCRIPT,
+      [rateLimitKey],
+      [String(now), String(windowMs), String(limit), crypto.randomUUID()]
+    );
+    return { allowed: allowed === 1, remaining, retryAfterMs };
+  }
+  const hits = (getLocal<number[]>(rateLimitKey) || []).filter(
+    (hit) => hit > now - windowMs
+  );
+  if (hits.length < limit) {
+    setLocalWithExpiry(rateLimitKey, [...hits, now], now + windowMs);
+    return { allowed: true, remaining: limit - hits.length - 1, retryAfterMs: 0 };
+  }
+  setLocalWithExpiry(rateLimitKey, hits, hits[hits.length - 1] + windowMs);
+  return { allowed: false, remaining: 0, retryAfterMs: hits[0] + windowMs - now };
+}
+
+function getCronRunsKey(job: string): string {
+  return `${APP_NAME}:cron-runs:${job}`;
+}
+
+/** Runs kept per job, newest first */
+const MAX_CRON_RUNS = 50;
+
+export async function addCronRun(run: CronRun): Promise<void> {
+  const key = getCronRunsKey(run.job);
+  if (redis) {
+    await redis.lpush(key, run);
+    await redis.ltrim(key, 0, MAX_CRON_RUNS - 1);
+  } else {
+    const runs = (localStore.get(key) as CronRun[]) || [];
+    localStore.set(key, [run, ...runs].slice(0, MAX_CRON_RUNS));
+  }
+}
+
+export async function getCronRuns(
+  job: string,
+  limit = MAX_CRON_RUNS
+): Promise<CronRun[]> {
+  const key = getCronRunsKey(job);
+  if (redis) {
+    return await redis.lrange<CronRun>(key, 0, limit - 1);
+  }
+  return ((localStore.get(key) as CronRun[]) || []).slice(0, limit);
+}
+
+function getBroadcastKey(id: string): string {
+  return `${APP_NAME}:broadcast:${id}`;
+}
+
+/** Ids of recent broadcast campaigns, newest first */
+const BROADCASTS_INDEX_KEY = `${APP_NAME}:broadcasts`;
+
+/** Campaigns kept in the index */
+const MAX_BROADCASTS = 50;
+
+export async function getBroadcastCampaign(
+  id: string
+): Promise<BroadcastCampaign | null> {
+  const key = getBroadcastKey(id);
+  if (redis) {
+    return await redis.get<BroadcastCampaign>(key);
+  }
+  return (localStore.get(key) as BroadcastCampaign) || null;
+}
+
+export async function setBroadcastCampaign(
+  campaign: BroadcastCampaign
+): Promise<void> {
+  const key = getBroadcastKey(campaign.id);
+  if (redis) {
+    await redis.set(key, campaign);
+  } else {
+    localStore.set(key, campaign);
+  }
+}
+
+export async function addBroadcastCampaign(
+  campaign: BroadcastCampaign
+): Promise<void> {
+  await setBroadcastCampaign(campaign);
+  if (redis) {
+    await redis.lpush(BROADCASTS_INDEX_KEY, campaign.id);
+    await redis.ltrim(BROADCASTS_INDEX_KEY, 0, MAX_BROADCASTS - 1);
+  } else {
+    const ids = (localStore.get(BROADCASTS_INDEX_KEY) as string[]) || [];
+    localStore.set(BROADCASTS_INDEX_KEY, [campaign.id, ...ids].slice(0, MAX_BROADCASTS));
+  }
+}
+
+export async function getBroadcastCampaignIds(
+  limit = MAX_BROADCASTS
+): Promise<string[]> {
+  if (redis) {
+    return await redis.lrange<string>(BROADCASTS_INDEX_KEY, 0, limit - 1);
+  }
+  return ((localStore.get(BROADCASTS_INDEX_KEY) as string[]) || []).slice(0, limit);
+}
+
+function getSiweNonceKey(nonce: string): string {
+  return `${APP_NAME}:siwe-nonce:${nonce}`;
+}
+
+export async function setSiweNonce(
+  nonce: string,
+  ttlSeconds: number
+): Promise<void> {
+  const key = getSiweNonceKey(nonce);
+  if (redis) {
+    await redis.set(key, 1, { ex: ttlSeconds });
+  } else {
+    setLocalWithExpiry(key, 1, Date.now() + ttlSeconds * 1000);
+  }
+}
+
+/**
+ * Deletes a nonce, so each one signs in at most once.
+ *
+ * @returns Whether the nonce existed and had not expired
+ */
+export async function consumeSiweNonce(nonce: string): Promise<boolean> {
+  const key = getSiweNonceKey(nonce);
+  if (redis) {
+    return (await redis.getdel(key)) !== null;
+  }
+  const exists = getLocal(key) !== undefined;
+  deleteLocal(key);
+  return exists;
+}
+
+function getSiweSessionKey(id: string): string {
+  return `${APP_NAME}:siwe-session:${id}`;
+}
+
+export async function getSiweSession(id: string): Promise<SiweSession | null> {
+  const key = getSiweSessionKey(id);
+  if (redis) {
+    return await redis.get<SiweSession>(key);
+  }
+  return getLocal<SiweSession>(key) || null;
+}
+
+export async function setSiweSession(session: SiweSession): Promise<void> {
+  const key = getSiweSessionKey(session.id);
+  if (redis) {
+    await redis.set(key, session, { pxat: session.expiresAt });
+  } else {
+    setLocalWithExpiry(key, session, session.expiresAt);
+  }
+}
+
+export async function deleteSiweSession(id: string): Promise<void> {
+  const key = getSiweSessionKey(id);
+  if (redis) {
+    await redis.del(key);
+  } else {
+    deleteLocal(key);
+  }
+}
+
+function getVerifiedAddressesKey(fid: number): string {
+  return `${APP_NAME}:verified-addresses:${fid}`;
+}
+
+export async function getCachedVerifiedAddresses(
+  fid: number
+): Promise<string[] | null> {
+  const key = getVerifiedAddressesKey(fid);
+  if (redis) {
+    return await redis.get<string[]>(key);
+  }
+  return getLocal<string[]>(key) || null;
+}
+
+export async function setCachedVerifiedAddresses(
+  fid: number,
+  addresses: string[],
+  ttlSeconds: number
+): Promise<void> {
+  const key = getVerifiedAddressesKey(fid);
+  if (redis) {
+    await redis.set(key, addresses, { ex: ttlSeconds });
+  } else {
+    setLocalWithExpiry(key, addresses, Date.now() + ttlSeconds * 1000);
+  }
+}
+
+function getQuickAuthClaimsKey(tokenHash: string): string {
+  return `${APP_NAME}:quick-auth:${tokenHash}`;
+}
+
+export async function getQuickAuthClaims(
+  tokenHash: string
+): Promise<QuickAuthClaims | null> {
+  const key = getQuickAuthClaimsKey(tokenHash);
+  if (redis) {
+    return await redis.get<QuickAuthClaims>(key);
+  }
+  return getLocal<QuickAuthClaims>(key) || null;
+}
+
+/**
+ * Caches a verified token's claims until the token expires.
+ */
+export async function setQuickAuthClaims(
+  tokenHash: string,
+  claims: QuickAuthClaims
+): Promise<void> {
+  const key = getQuickAuthClaimsKey(tokenHash);
+  if (redis) {
+    await redis.set(key, claims, { pxat: claims.expiresAt });
+  } else {
+    setLocalWithExpiry(key, claims, claims.expiresAt);
   }
 }
@@ -0,0 +1,228 @@
+import { getMessageText, type AgentResponse } from './agentSchema';
+import { handleMockAgentRequest } from './mockLendingAgent';
+
+/**
+ * Backend adapter layer for the Vibekit lending agent.
+ *
+ * The API route talks to the agent through a LendingAgentBackend so the
+ * upstream can be swapped without touching the route: the default HTTP
+ * backend targets a configurable Vibekit deployment, while the mock backend
+ * answers in-process with canned artifacts for offline development.
+ *
+ * Configuration (all optional):
+ * - LENDING_AGENT_BACKEND: `http` (default) or `mock`
+ * - LENDING_AGENT_BASE_URL: deployment base URL, `/agent` is appended
+ * - LENDING_AGENT_AUTH_TOKEN: credential sent with every request
+ * - LENDING_AGENT_AUTH_HEADER: header carrying the token (default `Authorization`, sent as a Bearer token)
+ * - LENDING_AGENT_TIMEOUT_MS: time allowed for the agent to start responding
+ * - LENDING_AGENT_MAX_RETRIES / LENDING_AGENT_RETRY_DELAY_MS: retry policy for transient failures
+ */
+
+/**
+ * One prior exchange in a conversation, oldest first
+ */
+export interface AgentTurn {
+  role: 'user' | 'agent';
+  text: string;
+}
+
+export interface LendingAgentRequest {
+  instruction: string;
+  userAddress: string;
+  /** Ask the agent for a `text/event-stream` response */
+  stream?: boolean;
+  /** A2A context handle grouping the turns of one chat session */
+  contextId?: string;
+  /** Task to continue when the agent asked for more input */
+  taskId?: string;
+  /** Recent turns, for agents that do not keep context server-side */
+  history?: AgentTurn[];
+}
+
+/**
+ * Server-side state of one chat session with the agent
+ */
+export interface AgentConversation {
+  contextId?: string;
+  taskId?: string;
+  taskState?: string;
+  history: AgentTurn[];
+  updatedAt: number;
+}
+
+/** Turns forwarded to the agent with each request */
+const MAX_HISTORY_TURNS = 20;
+
+/** Task states in which the agent expects the next message to continue the task */
+const CONTINUABLE_TASK_STATES = new Set(['input-required', 'auth-required']);
+
+export interface LendingAgentBackend {
+  /** Sends a request to the agent and resolves with its raw response */
+  send(request: LendingAgentRequest): Promise<Response>;
+}
+
+export interface LendingAgentConfig {
+  backend: 'http' | 'mock';
+  baseUrl: string;
+  authHeader: string;
+  authToken?: string;
+  timeoutMs: number;
+  maxRetries: number;
+  retryDelayMs: number;
+}
+
+const DEFAULT_BASE_URL = 'https://lending-agent.xcan.dev';
+
+/** Upstream statuses worth retrying: throttling and gateway failures */
+const RETRYABLE_STATUSES = new Set([429, 502, 503, 504]);
+
+function parseNumber(value: string | undefined, fallback: number): number {
+  const parsed = Number(value);
+  return value && Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+}
+
+/**
+ * Reads the lending agent configuration from environment variables.
+ */
+export function getLendingAgentConfig(): LendingAgentConfig {
+  return {
+    backend: process.env.LENDING_AGENT_BACKEND === 'mock' ? 'mock' : 'http',
+    baseUrl: (process.env.LENDING_AGENT_BASE_URL || DEFAULT_BASE_URL).replace(/\/+$/, ''),
+    authHeader: process.env.LENDING_AGENT_AUTH_HEADER || 'Authorization',
+    authToken: process.env.LENDING_AGENT_AUTH_TOKEN || undefined,
+    timeoutMs: parseNumber(process.env.LENDING_AGENT_TIMEOUT_MS, 60_000),
+    maxRetries: parseNumber(process.env.LENDING_AGENT_MAX_RETRIES, 2),
+    retryDelayMs: parseNumber(process.env.LENDING_AGENT_RETRY_DELAY_MS, 500),
+  };
+}
+
+/**
+ * Adds a session's context handle and recent history to a request. The task
+ * ID is only forwarded while the previous task is waiting for input, since
+ * finished A2A tasks cannot be continued.
+ */
+export function withConversation(
+  request: LendingAgentRequest,
+  conversation: AgentConversation | null
+): LendingAgentRequest {
+  if (!conversation) return request;
+  return {
+    ...request,
+    contextId: conversation.contextId,
+    taskId: conversation.taskState && CONTINUABLE_TASK_STATES.has(conversation.taskState)
+      ? conversation.taskId
+      : undefined,
+    history: conversation.history,
+  };
+}
+
+/**
+ * Records an exchange and the context/task IDs the agent answered with.
+ */
+export function recordConversationTurn(
+  conversation: AgentConversation | null,
+  instruction: string,
+  result: AgentResponse
+): AgentConversation {
+  const task = result.success ? result.data : undefined;
+  const reply = getMessageText(task?.status.message);
+  const history: AgentTurn[] = [
+    ...(conversation?.history ?? []),
+    { role: 'user', text: instruction },
+    ...(reply ? [{ role: 'agent' as const, text: reply }] : []),
+  ];
+
+  return {
+    contextId: task?.contextId ?? conversation?.contextId,
+    taskId: task?.id ?? conversation?.taskId,
+    taskState: task?.status.state,
+    history: history.slice(-MAX_HISTORY_TURNS),
+    updatedAt: Date.now(),
+  };
+}
+
+/**
+ * Creates a backend that POSTs to `${baseUrl}/agent`.
+ *
+ * The timeout covers the wait for response headers only, so a long streamed
+ * answer is never cut off once the agent has started replying. Network errors
+ * and retryable statuses are retried with exponential backoff; timeouts are not.
+ */
+export function createHttpBackend(config: LendingAgentConfig): LendingAgentBackend {
+  const url = `${config.baseUrl}/agent`;
+
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+  };
+  if (config.authToken) {
+    headers[config.authHeader] =
+      config.authHeader.toLowerCase() === 'authorization'
+        ? `Bearer ${config.authToken}`
+        : config.authToken;
+  }
+
+  const attempt = async (request: LendingAgentRequest): Promise<Response> => {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), config.timeoutMs);
+    try {
+      return await fetch(url, {
+        method: 'POST',
+        headers: {
+          ...headers,
+          Accept: request.stream ? 'text/event-stream, application/json' : 'application/json',
+        },
+        body: JSON.stringify(request),
+        signal: controller.signal,
+      });
+    } catch (error) {
+      if (controller.signal.aborted) {
+        const timeoutError = new Error(`Lending agent did not respond within ${config.timeoutMs}ms`);
+        timeoutError.name = 'TimeoutError';
+        throw timeoutError;
+      }
+      throw error;
+    } finally {
+      clearTimeout(timer);
+    }
+  };
+
+  return {
+    async send(request) {
+      for (let retry = 0; ; retry++) {
+        const canRetry = retry < config.maxRetries;
+        try {
+          const response = await attempt(request);
+          if (!canRetry || !RETRYABLE_STATUSES.has(response.status)) {
+            return response;
+          }
+          console.warn(`Lending agent responded ${response.status}, retrying...`);
+        } catch (error) {
+          if (!canRetry || (error instanceof Error && error.name === 'TimeoutError')) {
+            throw error;
+          }
+          console.warn('Lending agent request failed, retrying...', error);
+        }
+        await new Promise((resolve) => setTimeout(resolve, config.retryDelayMs * 2 ** retry));
+      }
+    },
+  };
+}
+
+/**
+ * Creates a backend that answers in-process with the bundled mock agent.
+ */
+export function createMockBackend(): LendingAgentBackend {
+  return {
+    async send(request) {
+      return handleMockAgentRequest(request);
+    },
+  };
+}
+
+/**
+ * Returns the backend selected by LENDING_AGENT_BACKEND.
+ */
+export function getLendingAgentBackend(): LendingAgentBackend {
+  const config = getLendingAgentConfig();
+  return config.backend === 'mock' ? createMockBackend() : createHttpBackend(config);
+}
@@ -0,0 +1,341 @@
+import { encodeFunctionData, erc20Abi, parseUnits, type Address } from 'viem';
+import { AAVE_V3_POOL_ADDRESS, aavePoolAbi, VARIABLE_INTEREST_RATE_MODE } from './aave';
+import { ARBITRUM_TOKENS } from './tokenUtils';
+import type { LendingAgentRequest } from './lendingAgent';
+import type { AgentArtifact, AgentMessage, AgentTask, AgentTaskStatus } from './agentSchema';
+
+/**
+ * Mock lending agent used for offline development.
+ *
+ * It understands a small set of instructions ("supply 0.1 USDC", "borrow 5 USDT",
+ * "repay ...", "withdraw ...", "show my positions") and answers with the same
+ * A2A task envelope as the real agent, including `txPreview`/`txPlan` and
+ * `positions` artifacts with real Aave V3 calldata. Streamed requests receive
+ * a short `text/event-stream` sequence so the progressive UI can be exercised.
+ * Follow-ups are resolved against the `history` sent with the request.
+ */
+
+const ARBITRUM_CHAIN_ID = '42161';
+
+/** Delay between streamed mock events, long enough to see progress in the UI */
+const STREAM_STEP_DELAY_MS = 300;
+
+type MockAction = 'supply' | 'borrow' | 'repay' | 'withdraw';
+
+const ACTION_PATTERN = /\b(supply|borrow|repay|withdraw)\s+(\d+(?:\.\d+)?)\s+([a-z]+)/i;
+
+interface MockReply {
+  text: string;
+  toolName?: string;
+  artifacts: AgentArtifact[];
+}
+
+/** Events of the A2A stream the real agent sends */
+type MockStreamEvent =
+  | { kind: 'status-update'; taskId: string; contextId: string; status: AgentTaskStatus }
+  | { kind: 'artifact-update'; taskId: string; contextId: string; artifact: AgentArtifact }
+  | AgentTask;
+
+function textMessage(text: string, messageId: string): AgentMessage {
+  return {
+    role: 'agent',
+    messageId,
+    kind: 'message',
+    parts: [{ kind: 'text', text }],
+  };
+}
+
+/**
+ * Builds the txPlan for an Aave V3 action. Supplies and repays are preceded by
+ * an ERC-20 approval of the pool, like the real agent does.
+ */
+function buildTxPlan(action: MockAction, asset: Address, amount: bigint, user: Address) {
+  const approve = {
+    to: asset,
+    data: encodeFunctionData({
+      abi: erc20Abi,
+      functionName: 'approve',
+      args: [AAVE_V3_POOL_ADDRESS, amount],
+    }),
+    value: '0',
+    chainId: ARBITRUM_CHAIN_ID,
+  };
+
+  const poolCall = (data: `0x${string}`) => ({
+    to: AAVE_V3_POOL_ADDRESS,
+    data,
+    value: '0',
+    chainId: ARBITRUM_CHAIN_ID,
+  });
+
+  switch (action) {
+    case 'supply':
+      return [
+        approve,
+        poolCall(encodeFunctionData({
+          abi: aavePoolAbi,
+          functionName: 'supply',
+          args: [asset, amount, user, 0],
+        })),
+      ];
+    case 'borrow':
+      return [
+        poolCall(encodeFunctionData({
+          abi: aavePoolAbi,
+          functionName: 'borrow',
+          args: [asset, amount, VARIABLE_INTEREST_RATE_MODE, 0, user],
+        })),
+      ];
+    case 'repay':
+      return [
+        approve,
+        poolCall(encodeFunctionData({
+          abi: aavePoolAbi,
+          functionName: 'repay',
+          args: [asset, amount, VARIABLE_INTEREST_RATE_MODE, user],
+        })),
+      ];
+    case 'withdraw':
+      return [
+        poolCall(encodeFunctionData({
+          abi: aavePoolAbi,
+          functionName: 'withdraw',
+          args: [asset, amount, user],
+        })),
+      ];
+  }
+}
+
+function buildPositionsArtifact(now: number): AgentArtifact {
+  const reserve = (
+    symbol: string,
+    name: string,
+    balance: string,
+    balanceUsd: string,
+    borrows: string,
+    borrowsUsd: string,
+    supplyApy: string,
+    variableBorrowApy: string
+  ) => {
+    const token = ARBITRUM_TOKENS[symbol];
+    return {
+      token: {
+        tokenUid: { chainId: ARBITRUM_CHAIN_ID, address: token.address!.toLowerCase() },
+        name,
+        symbol,
+        isNative: false,
+        decimals: token.decimals,
+        isVetted: true,
+      },
+      underlyingBalance: balance,
+      underlyingBalanceUsd: balanceUsd,
+      variableBorrows: borrows,
+      variableBorrowsUsd: borrowsUsd,
+      totalBorrows: borrows,
+      totalBorrowsUsd: borrowsUsd,
+      supplyApy,
+      variableBorrowApy,
+      usageAsCollateralEnabled: parseFloat(balance) > 0,
+    };
+  };
+
+  return {
+    artifactId: `positions-${now}`,
+    name: 'wallet-positions',
+    parts: [
+      {
+        kind: 'data',
+        data: {
+          positions: [
+            {
+              userReserves: [
+                reserve('USDC', 'USD Coin', '250.5', '250.45', '0', '0', '0.0412', '0.0587'),
+                reserve('WETH', 'Wrapped Ether', '0.12', '421.8', '0', '0', '0.0185', '0.0264'),
+                reserve('USDT', 'Tether USD', '0', '0', '120', '120.01', '0.0398', '0.0561'),
+              ],
+              totalLiquidityUsd: '672.25',
+              totalCollateralUsd: '672.25',
+              totalBorrowsUsd: '120.01',
+              netWorthUsd: '552.24',
+              availableBorrowsUsd: '384.18',
+              currentLoanToValue: '0.75',
+              currentLiquidationThreshold: '0.78',
+              healthFactor: '4.369',
+            },
+          ],
+        },
+      },
+    ],
+  };
+}
+
+/**
+ * Rewrites follow-ups such as "do the same for USDT" or "now borrow half of
+ * that" into a full instruction, using the last actionable user turn.
+ */
+function resolveFollowUp(request: LendingAgentRequest): string {
+  const instruction = request.instruction.trim();
+  if (ACTION_PATTERN.test(instruction)) return instruction;
+
+  const previous = [...(request.history ?? [])]
+    .reverse()
+    .find((turn) => turn.role === 'user' && ACTION_PATTERN.test(turn.text));
+  const match = previous?.text.match(ACTION_PATTERN);
+  if (!match) return instruction;
+
+  const [, action, amount, symbol] = match;
+  const sameFor = instruction.match(/\bsame\s+(?:for|with)\s+([a-z]+)/i);
+  if (sameFor) {
+    return `${action} ${amount} ${sameFor[1]}`;
+  }
+  const half = instruction.match(/\b(?:(supply|borrow|repay|withdraw)\s+)?half\b/i);
+  if (half) {
+    const halfAmount = (Number(amount) / 2).toFixed(6).replace(/\.?0+$/, '');
+    return `${half[1] ?? action} ${halfAmount} ${symbol}`;
+  }
+  return instruction;
+}
+
+function buildReply(request: LendingAgentRequest, now: number): MockReply {
+  const instruction = resolveFollowUp(request);
+
+  if (/position|balance|health|portfolio/i.test(instruction)) {
+    return {
+      text: 'Positions fetched successfully.',
+      toolName: 'getUserPositions',
+      artifacts: [buildPositionsArtifact(now)],
+    };
+  }
+
+  const match = instruction.match(ACTION_PATTERN);
+  if (!match) {
+    return {
+      text: 'I can supply, borrow, repay or withdraw tokens on Aave, and show your positions. Try "Supply 0.1 USDC".',
+      artifacts: [],
+    };
+  }
+
+  const action = match[1].toLowerCase() as MockAction;
+  const amount = match[2];
+  const requestedSymbol = match[3].toUpperCase();
+  // Native ETH goes through WETH in the mock; the real agent uses the WETH gateway
+  const symbol = requestedSymbol === 'ETH' ? 'WETH' : requestedSymbol;
+  const token = ARBITRUM_TOKENS[symbol];
+
+  if (!token?.address) {
+    return {
+      text: `Sorry, ${requestedSymbol} is not supported. Supported tokens: USDC, USDT, WETH, ARB.`,
+      artifacts: [],
+    };
+  }
+
+  return {
+    text: 'Transaction plan successfully created. Ready to sign.',
+    toolName: `${action}Tokens`,
+    artifacts: [
+      {
+        artifactId: `transaction-${now}`,
+        name: 'transaction-plan',
+        parts: [
+          {
+            kind: 'data',
+            data: {
+              txPreview: {
+                tokenName: symbol,
+                amount,
+                action,
+                chainId: ARBITRUM_CHAIN_ID,
+              },
+              txPlan: buildTxPlan(
+                action,
+                token.address as Address,
+                parseUnits(amount, token.decimals),
+                request.userAddress as Address
+              ),
+            },
+          },
+        ],
+      },
+    ],
+  };
+}
+
+/**
+ * Builds the completed task the mock agent returns for a request.
+ */
+export function buildMockTask(request: LendingAgentRequest) {
+  const now = Date.now();
+  const reply = buildReply(request, now);
+  const task: AgentTask = {
+    id: `mock-task-${now}`,
+    contextId: request.contextId ?? `mock-context-${now}`,
+    kind: 'task',
+    status: {
+      state: 'completed',
+      message: textMessage(reply.text, `msg-${now}`),
+    },
+    artifacts: reply.artifacts,
+  };
+
+  return { reply, task };
+}
+
+/**
+ * Answers a lending agent request the way the upstream `/agent` endpoint would.
+ */
+export function handleMockAgentRequest(request: LendingAgentRequest): Response {
+  const { reply, task } = buildMockTask(request);
+
+  if (!request.stream) {
+    return Response.json({ success: true, data: task });
+  }
+
+  const encoder = new TextEncoder();
+  const events: MockStreamEvent[] = [
+    {
+      kind: 'status-update',
+      taskId: task.id,
+      contextId: task.contextId,
+      status: { state: 'working', message: textMessage('Analyzing your request...', `msg-working-${task.id}`) },
+    },
+  ];
+  if (reply.toolName) {
+    events.push({
+      kind: 'status-update',
+      taskId: task.id,
+      contextId: task.contextId,
+      status: {
+        state: 'working',
+        message: {
+          role: 'agent',
+          messageId: `msg-tool-${task.id}`,
+          kind: 'message',
+          parts: [
+            {
+              kind: 'data',
+              data: { toolName: reply.toolName, status: 'started', text: `Calling ${reply.toolName}...` },
+            },
+          ],
+        },
+      },
+    });
+  }
+  for (const artifact of reply.artifacts) {
+    events.push({ kind: 'artifact-update', taskId: task.id, contextId: task.contextId, artifact });
+  }
+  events.push(task);
+
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      for (const event of events) {
+        await new Promise((resolve) => setTimeout(resolve, STREAM_STEP_DELAY_MS));
+        controller.enqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`));
+      }
+      controller.close();
+    },
+  });
+
+  return new Response(body, {
+    headers: { 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache' },
+  });
+}
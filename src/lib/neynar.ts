@@ -1,5 +1,8 @@
 import { NeynarAPIClient, Configuration, WebhookUserCreated } from '@neynar/nodejs-sdk';
-import { APP_URL } from './constants';
+import { buildDeepLinkUrl, type DeepLink } from './deepLinks';
+import { checkNotificationPreferences } from './notifs';
+import { withDeliveryLog, type NotificationDeliveryResult } from './notificationLog';
+import type { NotificationCategory } from './notificationPreferences';
 
 let neynarClient: NeynarAPIClient | null = null;
 
@@ -31,46 +34,59 @@ export async function getNeynarUser(fid: number): Promise<User | null> {
   }
 }
 
-type SendMiniAppNotificationResult =
-  | {
-      state: "error";
-      error: unknown;
-    }
-  | { state: "no_token" }
-  | { state: "rate_limit" }
-  | { state: "success" };
-
 export async function sendNeynarMiniAppNotification({
   fid,
   title,
   body,
+  target = {},
+  category,
+  idempotencyKey,
 }: {
   fid: number;
   title: string;
   body: string;
-}): Promise<SendMiniAppNotificationResult> {
-  try {
-    const client = getNeynarClient();
-    const targetFids = [fid];
-    const notification = {
-      title,
-      body,
-      target_url: APP_URL,
-    };
+  /** Where tapping the notification leads; the home tab by default */
+  target?: DeepLink;
+  /** Lets the user opt out; uncategorized notifications only respect quiet hours */
+  category?: NotificationCategory;
+  /** Makes retries of the same notification safe; see notificationLog.ts */
+  idempotencyKey?: string;
+}): Promise<NotificationDeliveryResult> {
+  const targetUrl = buildDeepLinkUrl(target);
+  return withDeliveryLog(
+    { fid, title, body, category, targetUrl, idempotencyKey },
+    async (notificationId) => {
+      try {
+        const muteReason = await checkNotificationPreferences(fid, category);
+        if (muteReason) {
+          return { state: "muted", reason: muteReason };
+        }
 
-    const result = await client.publishFrameNotifications({ 
-      targetFids, 
-      notification 
-    });
+        const client = getNeynarClient();
+        const targetFids = [fid];
+        const notification = {
+          title,
+          body,
+          target_url: targetUrl,
+          // Neynar's idempotency key
+          uuid: notificationId,
+        };
 
-    if (result.notification_deliveries.length > 0) {
-      return { state: "success" };
-    } else if (result.notification_deliveries.length === 0) {
-      return { state: "no_token" };
-    } else {
-      return { state: "error", error: result || "Unknown error" };
+        const result = await client.publishFrameNotifications({ 
+          targetFids, 
+          notification 
+        });
+
+        if (result.notification_deliveries.length > 0) {
+          return { state: "success" };
+        } else if (result.notification_deliveries.length === 0) {
+          return { state: "no_token" };
+        } else {
+          return { state: "error", error: result || "Unknown error" };
+        }
+      } catch (error) {
+        return { state: "error", error };
+      }
     }
-  } catch (error) {
-    return { state: "error", error };
-  }
+  );
 } 
\ No newline at end of file
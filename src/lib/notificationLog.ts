@@ -0,0 +1,117 @@
+import { getNotificationLog, setNotificationLog } from './kv';
+import type { NotificationCategory, NotificationMuteReason } from './notificationPreferences';
+
+/**
+ * Log of the notifications sent to each user, stored in KV per FID.
+ *
+ * Callers may pass an idempotency key with a notification. A retry with the
+ * same key reuses the logged notification id, so clients deduplicate it,
+ * and is not sent again at all once the first attempt was delivered. Keys
+ * are matched against the user's MAX_NOTIFICATION_LOG_ENTRIES most recent
+ * notifications.
+ */
+
+/** Notifications kept per user, newest first */
+export const MAX_NOTIFICATION_LOG_ENTRIES = 50;
+
+/** Longest idempotency key the API accepts */
+export const MAX_IDEMPOTENCY_KEY_LENGTH = 128;
+
+export type NotificationDeliveryResult =
+  | {
+      state: 'error';
+      error: unknown;
+    }
+  | { state: 'no_token' }
+  | { state: 'rate_limit' }
+  | { state: 'muted'; reason: NotificationMuteReason }
+  | { state: 'success' };
+
+export interface NotificationLogEntry {
+  notificationId: string;
+  idempotencyKey?: string;
+  title: string;
+  body: string;
+  category?: NotificationCategory;
+  targetUrl: string;
+  /** Outcome of the latest attempt */
+  state: NotificationDeliveryResult['state'];
+  /** Mute reason or error of the latest attempt */
+  detail?: string;
+  attempts: number;
+  createdAt: number;
+  updatedAt: number;
+}
+
+function describeResult(result: NotificationDeliveryResult): string | undefined {
+  if (result.state === 'muted') return result.reason;
+  if (result.state !== 'error') return undefined;
+  if (result.error instanceof Error) return result.error.message;
+  return typeof result.error === 'string' ? result.error : JSON.stringify(result.error);
+}
+
+/**
+ * Adds an entry to the user's log, replacing any entry with the same
+ * notification id.
+ */
+export async function addNotificationLogEntry(fid: number, entry: NotificationLogEntry): Promise<void> {
+  const log = await getNotificationLog(fid);
+  await setNotificationLog(
+    fid,
+    [entry, ...log.filter((logged) => logged.notificationId !== entry.notificationId)].slice(
+      0,
+      MAX_NOTIFICATION_LOG_ENTRIES
+    )
+  );
+}
+
+/**
+ * Sends a notification through `send` and logs the outcome.
+ *
+ * @param send - Delivers the notification with the given notification id
+ */
+export async function withDeliveryLog(
+  notification: {
+    fid: number;
+    title: string;
+    body: string;
+    category?: NotificationCategory;
+    targetUrl: string;
+    idempotencyKey?: string;
+  },
+  send: (notificationId: string) => Promise<NotificationDeliveryResult>
+): Promise<NotificationDeliveryResult> {
+  const { fid, idempotencyKey } = notification;
+  const log = await getNotificationLog(fid);
+  const previous = idempotencyKey
+    ? log.find((entry) => entry.idempotencyKey === idempotencyKey)
+    : undefined;
+
+  if (previous?.state === 'success') {
+    // Already delivered
+    return { state: 'success' };
+  }
+
+  const notificationId = previous?.notificationId ?? crypto.randomUUID();
+  const result = await send(notificationId);
+
+  const now = Date.now();
+  const entry: NotificationLogEntry = {
+    notificationId,
+    idempotencyKey,
+    title: notification.title,
+    body: notification.body,
+    category: notification.category,
+    targetUrl: notification.targetUrl,
+    state: result.state,
+    detail: describeResult(result),
+    attempts: (previous?.attempts ?? 0) + 1,
+    createdAt: previous?.createdAt ?? now,
+    updatedAt: now,
+  };
+
+  // Re-reads the log, so entries logged while sending are kept
+  await addNotificationLogEntry(fid, entry);
+
+  return result;
+}
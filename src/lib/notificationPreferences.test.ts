@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import {
+  DEFAULT_NOTIFICATION_PREFERENCES,
+  getNotificationMuteReason,
+  isWithinQuietHours,
+  withDefaultPreferences,
+  type NotificationPreferences,
+  type QuietHours,
+} from './notificationPreferences';
+
+const overnight: QuietHours = { enabled: true, start: '22:00', end: '08:00', timeZone: 'UTC' };
+
+const at = (time: string) => new Date(`2025-01-15T${time}:00Z`);
+
+describe('isWithinQuietHours', () => {
+  it('spans midnight when the end is before the start', () => {
+    expect(isWithinQuietHours(overnight, at('21:59'))).toBe(false);
+    expect(isWithinQuietHours(overnight, at('22:00'))).toBe(true);
+    expect(isWithinQuietHours(overnight, at('23:30'))).toBe(true);
+    expect(isWithinQuietHours(overnight, at('00:00'))).toBe(true);
+    expect(isWithinQuietHours(overnight, at('07:59'))).toBe(true);
+    expect(isWithinQuietHours(overnight, at('08:00'))).toBe(false);
+    expect(isWithinQuietHours(overnight, at('12:00'))).toBe(false);
+  });
+
+  it('handles windows within one day', () => {
+    const afternoon: QuietHours = { ...overnight, start: '13:00', end: '15:00' };
+    expect(isWithinQuietHours(afternoon, at('12:59'))).toBe(false);
+    expect(isWithinQuietHours(afternoon, at('13:00'))).toBe(true);
+    expect(isWithinQuietHours(afternoon, at('15:00'))).toBe(false);
+  });
+
+  it("uses the user's time zone", () => {
+    // 21:30 UTC is 22:30 in Berlin in winter
+    const berlin: QuietHours = { ...overnight, timeZone: 'Europe/Berlin' };
+    expect(isWithinQuietHours(berlin, at('21:30'))).toBe(true);
+    expect(isWithinQuietHours(berlin, at('07:30'))).toBe(false);
+  });
+
+  it('falls back to UTC for unknown time zones', () => {
+    const unknown: QuietHours = { ...overnight, timeZone: 'Mars/Olympus_Mons' };
+    expect(isWithinQuietHours(unknown, at('23:00'))).toBe(true);
+    expect(isWithinQuietHours(unknown, at('12:00'))).toBe(false);
+  });
+
+  it('is off when disabled', () => {
+    expect(isWithinQuietHours({ ...overnight, enabled: false }, at('23:00'))).toBe(false);
+  });
+});
+
+describe('getNotificationMuteReason', () => {
+  const preferences: NotificationPreferences = {
+    ...DEFAULT_NOTIFICATION_PREFERENCES,
+    categories: { ...DEFAULT_NOTIFICATION_PREFERENCES.categories, 'weekly-summary': false },
+    quietHours: overnight,
+  };
+
+  it('mutes disabled categories at any time', () => {
+    expect(getNotificationMuteReason(preferences, 'weekly-summary', at('12:00'))).toBe('category_disabled');
+  });
+
+  it('holds back non-urgent and uncategorized notifications during quiet hours', () => {
+    expect(getNotificationMuteReason(preferences, 'tx-confirmations', at('23:00'))).toBe('quiet_hours');
+    expect(getNotificationMuteReason(preferences, undefined, at('23:00'))).toBe('quiet_hours');
+    expect(getNotificationMuteReason(preferences, 'tx-confirmations', at('12:00'))).toBeNull();
+  });
+
+  it('delivers urgent notifications during quiet hours', () => {
+    expect(getNotificationMuteReason(preferences, 'liquidation-alerts', at('23:00'))).toBeNull();
+  });
+});
+
+describe('withDefaultPreferences', () => {
+  it('fills in categories and fields missing from saved preferences', () => {
+    const saved = withDefaultPreferences({
+      categories: { 'product-news': true } as NotificationPreferences['categories'],
+      updatedAt: 1,
+    });
+    expect(saved.categories).toEqual({ ...DEFAULT_NOTIFICATION_PREFERENCES.categories, 'product-news': true });
+    expect(saved.quietHours).toEqual(DEFAULT_NOTIFICATION_PREFERENCES.quietHours);
+    expect(saved.updatedAt).toBe(1);
+  });
+
+  it('returns the defaults without saved preferences', () => {
+    expect(withDefaultPreferences(null)).toEqual(DEFAULT_NOTIFICATION_PREFERENCES);
+  });
+});
@@ -0,0 +1,155 @@
+/**
+ * Per-user notification preferences: which categories of notifications a
+ * user receives and an optional daily quiet period.
+ *
+ * Preferences are stored in KV next to the user's notification token and
+ * enforced by both notification senders. Notifications sent without a
+ * category (e.g. the welcome message) are only subject to quiet hours, and
+ * urgent categories are delivered during quiet hours too.
+ */
+
+export type NotificationCategory =
+  | 'liquidation-alerts'
+  | 'tx-confirmations'
+  | 'weekly-summary'
+  | 'product-news';
+
+export interface NotificationCategoryInfo {
+  id: NotificationCategory;
+  label: string;
+  description: string;
+  /** Delivered during quiet hours */
+  urgent: boolean;
+}
+
+export const NOTIFICATION_CATEGORIES: NotificationCategoryInfo[] = [
+  {
+    id: 'liquidation-alerts',
+    label: 'Liquidation alerts',
+    description: 'Your health factor fell below one of your thresholds',
+    urgent: true,
+  },
+  {
+    id: 'tx-confirmations',
+    label: 'Transaction confirmations',
+    description: 'A transaction you signed was confirmed or failed',
+    urgent: false,
+  },
+  {
+    id: 'weekly-summary',
+    label: 'Weekly summary',
+    description: 'Your positions and rates once a week',
+    urgent: false,
+  },
+  {
+    id: 'product-news',
+    label: 'Product news',
+    description: 'New features and announcements',
+    urgent: false,
+  },
+];
+
+export interface QuietHours {
+  enabled: boolean;
+  /** Local start time, "HH:MM" */
+  start: string;
+  /** Local end time, "HH:MM"; may be earlier than `start` to span midnight */
+  end: string;
+  /** IANA time zone the times are in, e.g. "Europe/Berlin" */
+  timeZone: string;
+}
+
+export interface NotificationPreferences {
+  categories: Record<NotificationCategory, boolean>;
+  quietHours: QuietHours;
+  updatedAt: number;
+}
+
+/** Why a notification was not sent */
+export type NotificationMuteReason = 'category_disabled' | 'quiet_hours';
+
+export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = {
+  categories: {
+    'liquidation-alerts': true,
+    'tx-confirmations': true,
+    'weekly-summary': true,
+    'product-news': false,
+  },
+  quietHours: {
+    enabled: false,
+    start: '22:00',
+    end: '08:00',
+    timeZone: 'UTC',
+  },
+  updatedAt: 0,
+};
+
+/**
+ * Fills in categories added since the preferences were saved.
+ */
+export function withDefaultPreferences(
+  preferences: Partial<NotificationPreferences> | null
+): NotificationPreferences {
+  return {
+    ...DEFAULT_NOTIFICATION_PREFERENCES,
+    ...preferences,
+    categories: {
+      ...DEFAULT_NOTIFICATION_PREFERENCES.categories,
+      ...preferences?.categories,
+    },
+    quietHours: {
+      ...DEFAULT_NOTIFICATION_PREFERENCES.quietHours,
+      ...preferences?.quietHours,
+    },
+  };
+}
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+/**
+ * Whether `date` falls in the quiet hours, in the user's time zone.
+ */
+export function isWithinQuietHours(quietHours: QuietHours, date: Date = new Date()): boolean {
+  if (!quietHours.enabled) return false;
+
+  let localTime: string;
+  try {
+    localTime = date.toLocaleTimeString('en-GB', {
+      timeZone: quietHours.timeZone,
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23',
+    });
+  } catch {
+    // Unknown time zone
+    localTime = date.toISOString().slice(11, 16);
+  }
+
+  const now = toMinutes(localTime);
+  const start = toMinutes(quietHours.start);
+  const end = toMinutes(quietHours.end);
+  return start <= end ? now >= start && now < end : now >= start || now < end;
+}
+
+/**
+ * Checks a notification against the user's preferences.
+ *
+ * @returns Why the notification must not be sent, or null to send it
+ */
+export function getNotificationMuteReason(
+  preferences: NotificationPreferences,
+  category?: NotificationCategory,
+  date: Date = new Date()
+): NotificationMuteReason | null {
+  if (category && !preferences.categories[category]) {
+    return 'category_disabled';
+  }
+  const urgent = NOTIFICATION_CATEGORIES.find((info) => info.id === category)?.urgent ?? false;
+  if (!urgent && isWithinQuietHours(preferences.quietHours, date)) {
+    return 'quiet_hours';
+  }
+  return null;
+}
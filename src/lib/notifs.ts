@@ -1,45 +1,38 @@
 import {
   SendNotificationRequest,
+  SendNotificationResponse,
   sendNotificationResponseSchema,
 } from "@farcaster/miniapp-sdk";
-import { getUserNotificationDetails } from "~/lib/kv";
-import { APP_URL } from "./constants";
+import { getNotificationPreferences, getUserNotificationDetails } from "~/lib/kv";
+import { buildDeepLinkUrl, type DeepLink } from "./deepLinks";
+import {
+  getNotificationMuteReason,
+  type NotificationCategory,
+  type NotificationMuteReason,
+} from "./notificationPreferences";
+import { withDeliveryLog, type NotificationDeliveryResult } from "./notificationLog";
 
-type SendMiniAppNotificationResult =
+type PostNotificationResult =
   | {
       state: "error";
       error: unknown;
     }
-  | { state: "no_token" }
-  | { state: "rate_limit" }
-  | { state: "success" };
-
-export async function sendMiniAppNotification({
-  fid,
-  title,
-  body,
-}: {
-  fid: number;
-  title: string;
-  body: string;
-}): Promise<SendMiniAppNotificationResult> {
-  const notificationDetails = await getUserNotificationDetails(fid);
-  if (!notificationDetails) {
-    return { state: "no_token" };
-  }
+  | { state: "sent"; result: SendNotificationResponse["result"] };
 
-  const response = await fetch(notificationDetails.url, {
+/**
+ * Posts a notification to a client's notification URL. One request may
+ * carry up to 100 tokens that share the URL.
+ */
+export async function postNotification(
+  url: string,
+  request: SendNotificationRequest
+): Promise<PostNotificationResult> {
+  const response = await fetch(url, {
     method: "POST",
     headers: {
       "Content-Type": "application/json",
     },
-    body: JSON.stringify({
-      notificationId: crypto.randomUUID(),
-      title,
-      body,
-      targetUrl: APP_URL,
-      tokens: [notificationDetails.token],
-    } satisfies SendNotificationRequest),
+    body: JSON.stringify(request),
   });
 
   const responseJson = await response.json();
@@ -50,15 +43,76 @@ export async function sendMiniAppNotification({
       // Malformed response
       return { state: "error", error: responseBody.error.errors };
     }
-
-    if (responseBody.data.result.rateLimitedTokens.length) {
-      // Rate limited
-      return { state: "rate_limit" };
-    }
-
-    return { state: "success" };
+    return { state: "sent", result: responseBody.data.result };
   } else {
     // Error response
     return { state: "error", error: responseJson };
   }
 }
+
+/**
+ * Checks a notification against the recipient's preferences.
+ *
+ * @returns Why the notification must not be sent, or null to send it
+ */
+export async function checkNotificationPreferences(
+  fid: number,
+  category?: NotificationCategory
+): Promise<NotificationMuteReason | null> {
+  const preferences = await getNotificationPreferences(fid);
+  return getNotificationMuteReason(preferences, category);
+}
+
+export async function sendMiniAppNotification({
+  fid,
+  title,
+  body,
+  target = {},
+  category,
+  idempotencyKey,
+}: {
+  fid: number;
+  title: string;
+  body: string;
+  /** Where tapping the notification leads; the home tab by default */
+  target?: DeepLink;
+  /** Lets the user opt out; uncategorized notifications only respect quiet hours */
+  category?: NotificationCategory;
+  /** Makes retries of the same notification safe; see notificationLog.ts */
+  idempotencyKey?: string;
+}): Promise<NotificationDeliveryResult> {
+  const targetUrl = buildDeepLinkUrl(target);
+  return withDeliveryLog(
+    { fid, title, body, category, targetUrl, idempotencyKey },
+    async (notificationId) => {
+      const muteReason = await checkNotificationPreferences(fid, category);
+      if (muteReason) {
+        return { state: "muted", reason: muteReason };
+      }
+
+      const notificationDetails = await getUserNotificationDetails(fid);
+      if (!notificationDetails) {
+        return { state: "no_token" };
+      }
+
+      const response = await postNotification(notificationDetails.url, {
+        notificationId,
+        title,
+        body,
+        targetUrl,
+        tokens: [notificationDetails.token],
+      });
+
+      if (response.state === "error") {
+        return response;
+      }
+
+      if (response.result.rateLimitedTokens.length) {
+        // Rate limited
+        return { state: "rate_limit" };
+      }
+
+      return { state: "success" };
+    }
+  );
+}
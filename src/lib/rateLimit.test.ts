@@ -0,0 +1,88 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { checkRateLimits, getClientIp, rateLimitResponse, type RateLimitRule } from './rateLimit';
+
+const MINUTE = 60 * 1000;
+
+const perMinute: RateLimitRule = { name: 'test:minute', limit: 2, windowMs: MINUTE, message: 'Too many requests' };
+const perHour: RateLimitRule = { name: 'test:hour', limit: 3, windowMs: 60 * MINUTE, message: 'Hourly quota reached' };
+
+describe('checkRateLimits', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2025-01-15T12:00:00Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('blocks once the window is full and allows again when it slides', async () => {
+    const identifiers = { fid: 1 };
+    expect(await checkRateLimits([perMinute], identifiers)).toEqual({ allowed: true });
+    vi.advanceTimersByTime(10 * 1000);
+    expect(await checkRateLimits([perMinute], identifiers)).toEqual({ allowed: true });
+
+    expect(await checkRateLimits([perMinute], identifiers)).toEqual({
+      allowed: false,
+      rule: perMinute,
+      retryAfterSeconds: 50,
+    });
+
+    // The first hit leaves the window, the second is still in it
+    vi.advanceTimersByTime(50 * 1000);
+    expect(await checkRateLimits([perMinute], identifiers)).toEqual({ allowed: true });
+    expect((await checkRateLimits([perMinute], identifiers)).allowed).toBe(false);
+  });
+
+  it('counts every identifier separately', async () => {
+    await checkRateLimits([perMinute], { fid: 2, ip: '10.0.0.1' });
+    await checkRateLimits([perMinute], { fid: 2, ip: '10.0.0.2' });
+
+    // Same FID from a third IP
+    expect((await checkRateLimits([perMinute], { fid: 2, ip: '10.0.0.3' })).allowed).toBe(false);
+    // Same IP with another FID
+    expect((await checkRateLimits([perMinute], { fid: 3, ip: '10.0.0.1' })).allowed).toBe(true);
+  });
+
+  it('treats wallet addresses case-insensitively', async () => {
+    const address = '0xAbCdEf0000000000000000000000000000000001';
+    await checkRateLimits([perMinute], { address });
+    await checkRateLimits([perMinute], { address: address.toLowerCase() });
+    expect((await checkRateLimits([perMinute], { address: address.toUpperCase() })).allowed).toBe(false);
+  });
+
+  it('reports the rule that blocks for the longest time', async () => {
+    const identifiers = { fid: 4 };
+    await checkRateLimits([perMinute, perHour], identifiers);
+    await checkRateLimits([perMinute, perHour], identifiers);
+    vi.advanceTimersByTime(MINUTE);
+    await checkRateLimits([perMinute, perHour], identifiers);
+
+    const result = await checkRateLimits([perMinute, perHour], identifiers);
+    expect(result).toEqual({ allowed: false, rule: perHour, retryAfterSeconds: 59 * 60 });
+  });
+});
+
+describe('rateLimitResponse', () => {
+  it('answers 429 with a Retry-After header', async () => {
+    const response = rateLimitResponse({ allowed: false, rule: perMinute, retryAfterSeconds: 12 });
+    expect(response.status).toBe(429);
+    expect(response.headers.get('Retry-After')).toBe('12');
+    expect(await response.json()).toEqual({ error: 'Too many requests', code: 'rate_limited', retryAfter: 12 });
+  });
+});
+
+describe('getClientIp', () => {
+  it('takes the first forwarded address', () => {
+    const request = new Request('https://app.example', {
+      headers: { 'x-forwarded-for': '203.0.113.7, 10.0.0.1', 'x-real-ip': '10.0.0.1' },
+    });
+    expect(getClientIp(request)).toBe('203.0.113.7');
+  });
+
+  it('falls back to x-real-ip', () => {
+    const request = new Request('https://app.example', { headers: { 'x-real-ip': '203.0.113.8' } });
+    expect(getClientIp(request)).toBe('203.0.113.8');
+    expect(getClientIp(new Request('https://app.example'))).toBeNull();
+  });
+});
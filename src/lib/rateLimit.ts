@@ -0,0 +1,127 @@
+import { NextResponse } from 'next/server';
+import { hitRateLimit } from './kv';
+
+/**
+ * Sliding-window rate limits for routes that spend upstream budget.
+ *
+ * Every rule is applied separately to each identifier of the caller (FID,
+ * IP address, wallet), so switching wallets or sharing an FID across IPs
+ * does not get around it. Counters live in KV, shared by all instances.
+ *
+ * Configuration (optional, 0 disables a rule):
+ * - LENDING_AGENT_RATE_LIMIT: agent requests per minute (default 10)
+ * - LENDING_AGENT_DAILY_QUOTA: agent requests per 24 hours (default 200)
+ * - SIMULATION_RATE_LIMIT: simulation and health factor requests per minute
+ *   (default 30)
+ * - SIMULATION_DAILY_QUOTA: simulation and health factor requests per 24
+ *   hours (default 1000)
+ */
+
+export interface RateLimitRule {
+  /** Part of the KV key, unique per rule */
+  name: string;
+  limit: number;
+  windowMs: number;
+  /** Shown to the user when the rule is hit */
+  message: string;
+}
+
+export interface RateLimitIdentifiers {
+  fid?: number;
+  ip?: string | null;
+  address?: string;
+}
+
+export type RateLimitResult =
+  | { allowed: true }
+  | { allowed: false; rule: RateLimitRule; retryAfterSeconds: number };
+
+function readLimit(value: string | undefined, fallback: number): number {
+  const limit = Number(value);
+  return value !== undefined && value !== '' && Number.isFinite(limit) ? limit : fallback;
+}
+
+export const LENDING_AGENT_RATE_LIMITS: RateLimitRule[] = [
+  {
+    name: 'agent:minute',
+    limit: readLimit(process.env.LENDING_AGENT_RATE_LIMIT, 10),
+    windowMs: 60 * 1000,
+    message: 'Too many requests',
+  },
+  {
+    name: 'agent:day',
+    limit: readLimit(process.env.LENDING_AGENT_DAILY_QUOTA, 200),
+    windowMs: 24 * 60 * 60 * 1000,
+    message: 'Daily request quota reached',
+  },
+].filter((rule) => rule.limit > 0);
+
+/** Shared by the routes that read from SIMULATION_RPC_URL */
+export const SIMULATION_RATE_LIMITS: RateLimitRule[] = [
+  {
+    name: 'simulation:minute',
+    limit: readLimit(process.env.SIMULATION_RATE_LIMIT, 30),
+    windowMs: 60 * 1000,
+    message: 'Too many simulation requests',
+  },
+  {
+    name: 'simulation:day',
+    limit: readLimit(process.env.SIMULATION_DAILY_QUOTA, 1000),
+    windowMs: 24 * 60 * 60 * 1000,
+    message: 'Daily simulation quota reached',
+  },
+].filter((rule) => rule.limit > 0);
+
+/**
+ * The client's IP address as reported by the proxy in front of the app.
+ */
+export function getClientIp(request: Request): string | null {
+  const forwardedFor = request.headers.get('x-forwarded-for');
+  return forwardedFor?.split(',')[0].trim() || request.headers.get('x-real-ip');
+}
+
+/**
+ * Records a request against every rule and identifier.
+ *
+ * @returns Whether the request is allowed, and if not the rule that blocks
+ *   it for the longest time
+ */
+export async function checkRateLimits(
+  rules: RateLimitRule[],
+  identifiers: RateLimitIdentifiers
+): Promise<RateLimitResult> {
+  const keys = [
+    identifiers.fid !== undefined && `fid:${identifiers.fid}`,
+    identifiers.ip && `ip:${identifiers.ip}`,
+    identifiers.address && `address:${identifiers.address.toLowerCase()}`,
+  ].filter((key): key is string => Boolean(key));
+
+  let blocked: Extract<RateLimitResult, { allowed: false }> | undefined;
+  for (const rule of rules) {
+    for (const key of keys) {
+      const hit = await hitRateLimit(`${rule.name}:${key}`, rule.limit, rule.windowMs);
+      const retryAfterSeconds = Math.ceil(hit.retryAfterMs / 1000);
+      if (!hit.allowed && (!blocked || retryAfterSeconds > blocked.retryAfterSeconds)) {
+        blocked = { allowed: false, rule, retryAfterSeconds };
+      }
+    }
+  }
+  return blocked ?? { allowed: true };
+}
+
+/**
+ * The 429 response for a blocked request, with a `Retry-After` header.
+ */
+export function rateLimitResponse(result: Extract<RateLimitResult, { allowed: false }>): NextResponse {
+  return NextResponse.json(
+    {
+      error: result.rule.message,
+      code: 'rate_limited',
+      retryAfter: result.retryAfterSeconds,
+    },
+    {
+      status: 429,
+      headers: { 'Retry-After': String(result.retryAfterSeconds) },
+    }
+  );
+}
@@ -0,0 +1,161 @@
+import { NextRequest, NextResponse } from 'next/server';
+import type { Address } from 'viem';
+import { getQuickAuthDomain, getVerifiedAddresses, verifyQuickAuthToken } from './auth';
+import { getNeynarClient } from './neynar';
+import { getSiweSessionFromRequest } from './siwe';
+import { getSimulationClient } from './txSimulation';
+import { verifyWalletProof, type WalletProof } from './walletProof';
+
+/**
+ * The caller of an API route, whichever way they signed in:
+ *
+ * - `quick-auth`: a Farcaster QuickAuth JWT as `Authorization: Bearer`
+ * - `siwe`: the Sign-In with Ethereum session cookie (see siwe.ts)
+ * - `neynar-signer`: an approved Neynar signer's UUID in the
+ *   `X-Signer-Uuid` header
+ *
+ * A signer UUID sent along with a QuickAuth token is added to the session
+ * when it belongs to the same FID. Routes call `getSession` or
+ * `requireSession` instead of verifying credentials themselves.
+ *
+ * A Farcaster user's wallets are only looked up when a route needs them,
+ * through `getSessionAddresses` or `sessionOwnsWallet`.
+ */
+
+export type SessionMethod = 'quick-auth' | 'siwe' | 'neynar-signer';
+
+export interface Session {
+  method: SessionMethod;
+  /** Farcaster user; absent for SIWE sessions */
+  fid?: number;
+  /** The signed-in wallet of a SIWE session */
+  address?: Address;
+  /** Approved Neynar signer of the FID */
+  signerUuid?: string;
+}
+
+export type SessionResult =
+  | { session: Session; response?: undefined }
+  | { session?: undefined; response: NextResponse };
+
+export const SIGNER_UUID_HEADER = 'x-signer-uuid';
+
+function toLowerCaseAddresses(addresses: string[]): Address[] {
+  return [...new Set(addresses.map((address) => address.toLowerCase() as Address))];
+}
+
+/**
+ * The FID of an approved Neynar signer, or null.
+ */
+async function getSignerFid(signerUuid: string): Promise<number | null> {
+  if (!process.env.NEYNAR_API_KEY) return null;
+  try {
+    const signer = await getNeynarClient().lookupSigner({ signerUuid });
+    return signer.status === 'approved' && signer.fid ? signer.fid : null;
+  } catch (error) {
+    console.info('Unknown signer:', error);
+    return null;
+  }
+}
+
+async function getFarcasterSession(method: SessionMethod, fid: number, signerUuid?: string): Promise<Session> {
+  const signerFid = signerUuid ? await getSignerFid(signerUuid) : null;
+  return {
+    method,
+    fid,
+    signerUuid: signerFid === fid ? signerUuid : undefined,
+  };
+}
+
+/**
+ * Wallets the session's user is known to control, lowercased: the SIWE
+ * wallet, or the FID's verified addresses on Farcaster.
+ */
+export async function getSessionAddresses(session: Session): Promise<Address[]> {
+  if (session.address) return toLowerCaseAddresses([session.address]);
+  if (session.fid === undefined) return [];
+  return toLowerCaseAddresses(await getVerifiedAddresses(session.fid));
+}
+
+/**
+ * The session of a request, or null when it carries no valid credentials.
+ *
+ * @throws If a credential could not be verified, e.g. the QuickAuth key
+ *   server is unreachable
+ */
+export async function getSession(request: NextRequest): Promise<Session | null> {
+  const authorization = request.headers.get('authorization');
+  const signerUuid = request.headers.get(SIGNER_UUID_HEADER) ?? undefined;
+
+  if (authorization?.startsWith('Bearer ')) {
+    const user = await verifyQuickAuthToken(authorization.slice('Bearer '.length), getQuickAuthDomain(request));
+    return user ? getFarcasterSession('quick-auth', user.fid, signerUuid) : null;
+  }
+
+  const siweSession = await getSiweSessionFromRequest(request);
+  if (siweSession) {
+    return { method: 'siwe', address: siweSession.address };
+  }
+
+  if (signerUuid) {
+    const fid = await getSignerFid(signerUuid);
+    return fid ? getFarcasterSession('neynar-signer', fid, signerUuid) : null;
+  }
+
+  return null;
+}
+
+/**
+ * Authenticates a request. When `fid` is given, the session must belong to
+ * that Farcaster user.
+ *
+ * @returns The session, or the error response to return from the route
+ */
+export async function requireSession(request: NextRequest, { fid }: { fid?: number } = {}): Promise<SessionResult> {
+  let session: Session | null;
+  try {
+    session = await getSession(request);
+  } catch (error) {
+    console.error('Session verification error:', error);
+    return { response: NextResponse.json({ error: 'Internal server error' }, { status: 500 }) };
+  }
+
+  if (!session) {
+    return { response: NextResponse.json({ error: 'Authentication required' }, { status: 401 }) };
+  }
+  if (fid !== undefined && session.fid !== fid) {
+    return {
+      response: NextResponse.json(
+        { error: session.fid === undefined ? 'Sign in with Farcaster' : 'FID does not match the authenticated user' },
+        { status: 403 }
+      ),
+    };
+  }
+  return { session };
+}
+
+/**
+ * Whether the session's user controls `address`: a wallet of the session,
+ * or one proven for its FID by a wallet proof.
+ */
+export async function sessionOwnsWallet(
+  request: Request,
+  session: Session,
+  address: Address,
+  proof?: WalletProof
+): Promise<boolean> {
+  const addresses = await getSessionAddresses(session);
+  if (addresses.includes(address.toLowerCase() as Address)) return true;
+  if (!proof || session.fid === undefined) return false;
+
+  try {
+    return await verifyWalletProof(getSimulationClient(), proof, {
+      fid: session.fid,
+      address,
+      domain: getQuickAuthDomain(request),
+    });
+  } catch (error) {
+    console.info('Invalid wallet proof:', error);
+    return false;
+  }
+}
@@ -0,0 +1,158 @@
+import type { NextRequest, NextResponse } from 'next/server';
+import type { Address, Hex } from 'viem';
+import { arbitrum } from 'viem/chains';
+import { generateSiweNonce, parseSiweMessage } from 'viem/siwe';
+import { getQuickAuthDomain } from './auth';
+import {
+  consumeSiweNonce,
+  deleteSiweSession,
+  getSiweSession,
+  setSiweNonce,
+  setSiweSession,
+} from './kv';
+import { getSimulationClient } from './txSimulation';
+
+/**
+ * Sign-In with Ethereum (EIP-4361) for users outside Farcaster.
+ *
+ * 1. The client gets a nonce from `/api/auth/nonce`; it is kept in KV for
+ *    SIWE_NONCE_TTL_SECONDS and can sign in once.
+ * 2. The wallet signs a SIWE message for the app's domain on Arbitrum with
+ *    that nonce, and the client posts it to `/api/auth/siwe/verify`.
+ * 3. The route checks the message and signature, then stores a session in
+ *    KV and sets its id in an HTTP-only cookie, which API routes read with
+ *    `getSiweSessionFromRequest`. `/api/auth/siwe/session` returns the
+ *    session, and deleting it signs out.
+ */
+
+export const SIWE_NONCE_TTL_SECONDS = 10 * 60;
+
+export const SIWE_SESSION_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+export const SIWE_SESSION_COOKIE = 'siwe_session';
+
+/** Chain the app runs on; messages for other chains are rejected */
+export const SIWE_CHAIN_ID = arbitrum.id;
+
+export interface SiweSession {
+  id: string;
+  address: Address;
+  chainId: number;
+  createdAt: number;
+  expiresAt: number;
+}
+
+/** A session without its id, which only the cookie carries */
+export type PublicSiweSession = Omit<SiweSession, 'id'>;
+
+export type SiweSignInResult =
+  | { session: SiweSession; error?: undefined }
+  | { session?: undefined; error: string };
+
+export function toPublicSiweSession({ address, chainId, createdAt, expiresAt }: SiweSession): PublicSiweSession {
+  return { address, chainId, createdAt, expiresAt };
+}
+
+/**
+ * Creates a nonce for a sign-in message.
+ */
+export async function issueSiweNonce(): Promise<string> {
+  const nonce = generateSiweNonce();
+  await setSiweNonce(nonce, SIWE_NONCE_TTL_SECONDS);
+  return nonce;
+}
+
+/**
+ * Verifies a signed SIWE message and starts a session for its address.
+ */
+export async function signInWithEthereum(
+  request: Request,
+  { message, signature }: { message: string; signature: Hex }
+): Promise<SiweSignInResult> {
+  let parsed: ReturnType<typeof parseSiweMessage>;
+  try {
+    parsed = parseSiweMessage(message);
+  } catch {
+    return { error: 'Malformed SIWE message' };
+  }
+
+  if (!parsed.domain || !parsed.address || !parsed.nonce) {
+    return { error: 'Malformed SIWE message' };
+  }
+
+  const domain = getQuickAuthDomain(request);
+  if (parsed.domain !== domain) {
+    return { error: `Message is for ${parsed.domain}, not ${domain}` };
+  }
+  if (parsed.chainId !== SIWE_CHAIN_ID) {
+    return { error: `Sign in on chain ${SIWE_CHAIN_ID}` };
+  }
+  const now = Date.now();
+  if (parsed.expirationTime && parsed.expirationTime.getTime() <= now) {
+    return { error: 'Message has expired' };
+  }
+  if (parsed.notBefore && parsed.notBefore.getTime() > now) {
+    return { error: 'Message is not valid yet' };
+  }
+
+  // Consumed atomically once the message itself checks out, and before the
+  // signature is checked, so a nonce never gets a second try
+  if (!(await consumeSiweNonce(parsed.nonce))) {
+    return { error: 'Unknown, expired or already used nonce' };
+  }
+
+  const valid = await getSimulationClient().verifySiweMessage({
+    message,
+    signature,
+    address: parsed.address,
+    domain,
+    nonce: parsed.nonce,
+  });
+  if (!valid) {
+    return { error: 'Invalid signature or expired message' };
+  }
+
+  const session: SiweSession = {
+    id: crypto.randomUUID(),
+    address: parsed.address,
+    chainId: parsed.chainId,
+    createdAt: now,
+    expiresAt: Math.min(
+      now + SIWE_SESSION_TTL_SECONDS * 1000,
+      parsed.expirationTime?.getTime() ?? Infinity
+    ),
+  };
+  await setSiweSession(session);
+  return { session };
+}
+
+/**
+ * The SIWE session of the request's cookie, if it is still valid.
+ */
+export async function getSiweSessionFromRequest(request: NextRequest): Promise<SiweSession | null> {
+  const id = request.cookies.get(SIWE_SESSION_COOKIE)?.value;
+  if (!id) return null;
+  const session = await getSiweSession(id);
+  return session && session.expiresAt > Date.now() ? session : null;
+}
+
+export function setSiweSessionCookie(response: NextResponse, session: SiweSession) {
+  response.cookies.set(SIWE_SESSION_COOKIE, session.id, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV !== 'development',
+    sameSite: 'lax',
+    path: '/',
+    expires: new Date(session.expiresAt),
+  });
+}
+
+/**
+ * Ends the request's session and clears its cookie.
+ */
+export async function signOutSiweSession(request: NextRequest, response: NextResponse) {
+  const id = request.cookies.get(SIWE_SESSION_COOKIE)?.value;
+  if (id) {
+    await deleteSiweSession(id);
+  }
+  response.cookies.delete(SIWE_SESSION_COOKIE);
+}
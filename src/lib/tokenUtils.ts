@@ -1,3 +1,5 @@
+import type { TxPlanEntry } from './agentSchema';
+
 /**
  * Token utilities for handling different token decimals and conversions
  */
@@ -46,6 +48,15 @@ export function getTokenInfo(symbol: string): TokenInfo {
   return ARBITRUM_TOKENS[upperSymbol] || { symbol: upperSymbol, decimals: 18 };
 }
 
+/**
+ * Get token info by contract address, if it is a known Arbitrum token
+ */
+export function getTokenInfoByAddress(address: string): TokenInfo | undefined {
+  return Object.values(ARBITRUM_TOKENS).find(
+    (token) => token.address?.toLowerCase() === address.toLowerCase()
+  );
+}
+
 /**
  * Format token amount for display (from wei/smallest unit to human readable)
  */
@@ -109,12 +120,7 @@ export interface TransactionData {
   amount: string;
   action: string;
   chainId: string;
-  txPlan: Array<{
-    to: string;
-    data: string;
-    value: string;
-    chainId: string;
-  }>;
+  txPlan: TxPlanEntry[];
 }
 
 export function formatTransactionData(data: TransactionData): TransactionData {
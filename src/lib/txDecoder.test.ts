@@ -0,0 +1,108 @@
+import { describe, expect, it } from 'vitest';
+import { encodeFunctionData, erc20Abi, maxUint256, type Address } from 'viem';
+import { AAVE_V3_POOL_ADDRESS, aavePoolAbi, VARIABLE_INTEREST_RATE_MODE } from './aave';
+import { ARBITRUM_TOKENS, type TransactionData } from './tokenUtils';
+import { getTxPlanWarnings } from './txDecoder';
+import { truncateAddress } from './truncateAddress';
+import type { TxPlanEntry } from './agentSchema';
+
+const USER: Address = '0x1111111111111111111111111111111111111111';
+const OTHER: Address = '0x2222222222222222222222222222222222222222';
+const USDC = ARBITRUM_TOKENS.USDC.address as Address;
+
+function entry(to: string, data: `0x${string}`, chainId = '42161'): TxPlanEntry {
+  return { to, data, value: '0', chainId };
+}
+
+function approve(amount: bigint, spender: Address = AAVE_V3_POOL_ADDRESS) {
+  return entry(USDC, encodeFunctionData({ abi: erc20Abi, functionName: 'approve', args: [spender, amount] }));
+}
+
+function supply(amount: bigint, onBehalfOf: Address = USER, to: string = AAVE_V3_POOL_ADDRESS) {
+  return entry(to, encodeFunctionData({ abi: aavePoolAbi, functionName: 'supply', args: [USDC, amount, onBehalfOf, 0] }));
+}
+
+function borrow(amount: bigint) {
+  return entry(
+    AAVE_V3_POOL_ADDRESS,
+    encodeFunctionData({ abi: aavePoolAbi, functionName: 'borrow', args: [USDC, amount, VARIABLE_INTEREST_RATE_MODE, 0, USER] })
+  );
+}
+
+function plan(txPlan: TxPlanEntry[], preview: Partial<TransactionData> = {}): TransactionData {
+  return { tokenName: 'USDC', amount: '1.5', action: 'supply', chainId: '42161', txPlan, ...preview };
+}
+
+describe('getTxPlanWarnings', () => {
+  it('returns no warnings when the calldata matches the preview', () => {
+    expect(getTxPlanWarnings(plan([approve(1_500_000n), supply(1_500_000n)]), USER)).toEqual([]);
+  });
+
+  it('treats ETH and WETH as the same token', () => {
+    const weth = ARBITRUM_TOKENS.WETH.address as Address;
+    const data = encodeFunctionData({ abi: aavePoolAbi, functionName: 'withdraw', args: [weth, 10n ** 18n, USER] });
+    const warnings = getTxPlanWarnings(
+      plan([entry(AAVE_V3_POOL_ADDRESS, data)], { tokenName: 'ETH', amount: '1', action: 'withdraw' }),
+      USER
+    );
+    expect(warnings).toEqual([]);
+  });
+
+  it('flags amounts that differ from the preview', () => {
+    expect(getTxPlanWarnings(plan([approve(2_000_000n), supply(2_000_000n)]), USER)).toEqual([
+      'The calldata amount (2 USDC) differs from the preview (1.5).',
+    ]);
+  });
+
+  it('flags an action or token that differs from the preview', () => {
+    expect(getTxPlanWarnings(plan([borrow(1_500_000n)], { tokenName: 'USDT' }), USER)).toEqual([
+      'The calldata performs a borrow, but the preview says supply.',
+      'The calldata uses USDC, but the preview says USDT.',
+    ]);
+  });
+
+  it('flags unlimited approvals and non-Aave spenders', () => {
+    expect(getTxPlanWarnings(plan([approve(maxUint256, OTHER), supply(1_500_000n)]), USER)).toEqual([
+      `Step 1 approves Unknown contract ${truncateAddress(OTHER)}, which is not an Aave contract.`,
+      'Step 1 grants an unlimited USDC approval.',
+    ]);
+  });
+
+  it('flags approvals lower than the action amount', () => {
+    expect(getTxPlanWarnings(plan([approve(1_000_000n), supply(1_500_000n)]), USER)).toEqual([
+      'The approval (1) is lower than the supply amount (1.5).',
+    ]);
+  });
+
+  it('flags actions on behalf of another account', () => {
+    expect(getTxPlanWarnings(plan([approve(1_500_000n), supply(1_500_000n, OTHER)]), USER)).toEqual([
+      `Step 2 acts on behalf of ${truncateAddress(OTHER)}, not your wallet.`,
+    ]);
+  });
+
+  it('flags pool calls sent to another contract', () => {
+    expect(getTxPlanWarnings(plan([approve(1_500_000n), supply(1_500_000n, USER, OTHER)]), USER)).toEqual([
+      `Step 2 is sent to Unknown contract ${truncateAddress(OTHER)} instead of the Aave V3 Pool.`,
+    ]);
+  });
+
+  it('flags steps on another chain', () => {
+    const step = { ...supply(1_500_000n), chainId: '1' };
+    expect(getTxPlanWarnings(plan([approve(1_500_000n), step]), USER)).toEqual([
+      'Step 2 targets chain 1, but the preview says chain 42161.',
+    ]);
+  });
+
+  it('flags unrecognized calls and plans without an Aave action', () => {
+    expect(getTxPlanWarnings(plan([entry(OTHER, '0xdeadbeef')]), USER)).toEqual([
+      `Step 1 calls an unrecognized function on Unknown contract ${truncateAddress(OTHER)}.`,
+      'The plan does not contain an Aave supply, borrow, repay or withdraw call.',
+    ]);
+  });
+
+  it('does not compare full-balance amounts', () => {
+    const data = encodeFunctionData({ abi: aavePoolAbi, functionName: 'withdraw', args: [USDC, maxUint256, USER] });
+    const warnings = getTxPlanWarnings(plan([entry(AAVE_V3_POOL_ADDRESS, data)], { action: 'withdraw', amount: 'max' }), USER);
+    expect(warnings).toEqual([]);
+  });
+});
@@ -0,0 +1,294 @@
+import {
+  decodeFunctionData,
+  erc20Abi,
+  isAddressEqual,
+  maxUint256,
+  type Abi,
+  type Hex,
+} from 'viem';
+import {
+  AAVE_V3_POOL_ADDRESS,
+  AAVE_V3_WETH_GATEWAY_ADDRESS,
+  aavePoolAbi,
+  aaveWethGatewayAbi,
+} from './aave';
+import {
+  formatTokenAmount,
+  getTokenInfo,
+  getTokenInfoByAddress,
+  parseTokenAmount,
+  type TokenInfo,
+  type TransactionData,
+} from './tokenUtils';
+import { truncateAddress } from './truncateAddress';
+import type { TxPlanEntry } from './agentSchema';
+
+/**
+ * Decoding of txPlan calldata against the ABIs the lending agent targets
+ * (ERC-20, Aave V3 Pool and the WETH gateway), and checks of the decoded
+ * calls against the agent's txPreview.
+ */
+
+export type TxStepAction = 'approve' | 'supply' | 'borrow' | 'repay' | 'withdraw' | 'unknown';
+
+/** Which ABI matched the calldata */
+type TxStepSource = 'erc20' | 'pool' | 'gateway' | 'unknown';
+
+export interface ContractLabel {
+  address: string;
+  name: string;
+  /** Whether the address is one of the known Aave or token contracts */
+  known: boolean;
+}
+
+export interface DecodedTxStep {
+  action: TxStepAction;
+  source: TxStepSource;
+  functionName?: string;
+  args?: readonly unknown[];
+  /** Contract the transaction is sent to */
+  contract: ContractLabel;
+  /** Token the step moves: the approved token or the Aave reserve */
+  token?: TokenInfo;
+  /** Exact amount in the token's smallest unit */
+  amount?: bigint;
+  /** Exact amount in token units, or a description of a max-uint amount */
+  formattedAmount?: string;
+  /** The amount is max uint256 (unlimited approval, full repay/withdraw) */
+  isMaxAmount?: boolean;
+  /** Approved spender */
+  spender?: ContractLabel;
+  /** Account the action is performed for (`onBehalfOf` / `to`) */
+  beneficiary?: string;
+  value: bigint;
+}
+
+const NATIVE_ETH = getTokenInfo('ETH');
+
+const POOL_ACTIONS: Record<string, TxStepAction> = {
+  supply: 'supply',
+  borrow: 'borrow',
+  repay: 'repay',
+  withdraw: 'withdraw',
+  depositETH: 'supply',
+  borrowETH: 'borrow',
+  repayETH: 'repay',
+  withdrawETH: 'withdraw',
+};
+
+/**
+ * Names a contract address, e.g. "Aave V3 Pool" or "USDC token".
+ */
+export function getContractLabel(address: string): ContractLabel {
+  if (isAddressEqual(address as Hex, AAVE_V3_POOL_ADDRESS)) {
+    return { address, name: 'Aave V3 Pool', known: true };
+  }
+  if (isAddressEqual(address as Hex, AAVE_V3_WETH_GATEWAY_ADDRESS)) {
+    return { address, name: 'Aave WETH Gateway', known: true };
+  }
+  const token = getTokenInfoByAddress(address);
+  if (token) {
+    return { address, name: `${token.symbol} token`, known: true };
+  }
+  return { address, name: `Unknown contract ${truncateAddress(address)}`, known: false };
+}
+
+function tryDecode(abi: Abi, data: string) {
+  try {
+    return decodeFunctionData({ abi, data: data as Hex });
+  } catch {
+    return null;
+  }
+}
+
+function describeAmount(action: TxStepAction, amount: bigint, token?: TokenInfo) {
+  if (amount === maxUint256) {
+    return {
+      isMaxAmount: true,
+      formattedAmount: action === 'approve' ? 'Unlimited' : 'Full balance',
+    };
+  }
+  return {
+    isMaxAmount: false,
+    formattedAmount: token ? formatTokenAmount(amount, token.decimals) : amount.toString(),
+  };
+}
+
+/**
+ * Decodes one txPlan entry. Calls that match no known ABI are `unknown`.
+ */
+export function decodeTxStep(entry: TxPlanEntry): DecodedTxStep {
+  const contract = getContractLabel(entry.to);
+  const value = BigInt(entry.value || '0');
+
+  const erc20Call = tryDecode(erc20Abi, entry.data);
+  if (erc20Call?.functionName === 'approve') {
+    const [spender, amount] = erc20Call.args as readonly [string, bigint];
+    const token = getTokenInfoByAddress(entry.to);
+    return {
+      action: 'approve',
+      source: 'erc20',
+      functionName: erc20Call.functionName,
+      args: erc20Call.args,
+      contract,
+      token,
+      amount,
+      ...describeAmount('approve', amount, token),
+      spender: getContractLabel(spender),
+      value,
+    };
+  }
+
+  const poolCall = tryDecode(aavePoolAbi, entry.data);
+  if (poolCall) {
+    const args = poolCall.args as readonly unknown[];
+    const action = POOL_ACTIONS[poolCall.functionName];
+    const token = getTokenInfoByAddress(String(args[0]));
+    const amount = args[1] as bigint;
+    // onBehalfOf (supply, borrow, repay) or the withdrawal recipient
+    const beneficiaryIndex = { supply: 2, borrow: 4, repay: 3, withdraw: 2 }[poolCall.functionName];
+    return {
+      action,
+      source: 'pool',
+      functionName: poolCall.functionName,
+      args,
+      contract,
+      token,
+      amount,
+      ...describeAmount(action, amount, token),
+      beneficiary: String(args[beneficiaryIndex]),
+      value,
+    };
+  }
+
+  const gatewayCall = tryDecode(aaveWethGatewayAbi, entry.data);
+  if (gatewayCall) {
+    const args = gatewayCall.args as readonly unknown[];
+    const action = POOL_ACTIONS[gatewayCall.functionName];
+    // depositETH supplies the attached value; the others take an amount argument
+    const amount = gatewayCall.functionName === 'depositETH' ? value : (args[1] as bigint);
+    const beneficiary =
+      gatewayCall.functionName === 'depositETH' ? args[1]
+        : gatewayCall.functionName === 'borrowETH' ? undefined
+        : args[args.length - 1];
+    return {
+      action,
+      source: 'gateway',
+      functionName: gatewayCall.functionName,
+      args,
+      contract,
+      token: NATIVE_ETH,
+      amount,
+      ...describeAmount(action, amount, NATIVE_ETH),
+      beneficiary: beneficiary === undefined ? undefined : String(beneficiary),
+      value,
+    };
+  }
+
+  return { action: 'unknown', source: 'unknown', contract, value };
+}
+
+/**
+ * Short label for a decoded step, e.g. "Approve USDC" or "Supply USDC".
+ */
+export function getTxStepLabel(step: DecodedTxStep): string {
+  if (step.action === 'unknown') return 'Contract call';
+  const verb = step.action.charAt(0).toUpperCase() + step.action.slice(1);
+  return step.token ? `${verb} ${step.token.symbol}` : verb;
+}
+
+/**
+ * The Aave action a plan performs: its last call other than approvals.
+ */
+export function getMainTxStep(steps: DecodedTxStep[]): DecodedTxStep | undefined {
+  return [...steps].reverse().find((step) => step.action !== 'approve' && step.action !== 'unknown');
+}
+
+/** The mock and real agent route native ETH through WETH */
+function isSameToken(a: string, b: string) {
+  const normalize = (symbol: string) => (symbol.toUpperCase() === 'ETH' ? 'WETH' : symbol.toUpperCase());
+  return normalize(a) === normalize(b);
+}
+
+/**
+ * Compares the decoded txPlan with the agent's txPreview and returns a
+ * warning for every discrepancy or risky call, so the user can review them
+ * before signing. An empty list means the calldata matches the preview.
+ *
+ * @param data - Transaction preview and plan from the agent
+ * @param userAddress - Connected wallet, expected as the beneficiary of every action
+ */
+export function getTxPlanWarnings(data: TransactionData, userAddress?: string): string[] {
+  const warnings: string[] = [];
+  const steps = data.txPlan.map(decodeTxStep);
+
+  steps.forEach((step, index) => {
+    const n = index + 1;
+    const entry = data.txPlan[index];
+
+    if (String(entry.chainId) !== String(data.chainId)) {
+      warnings.push(`Step ${n} targets chain ${entry.chainId}, but the preview says chain ${data.chainId}.`);
+    }
+
+    if (step.action === 'unknown') {
+      warnings.push(`Step ${n} calls an unrecognized function on ${step.contract.name}.`);
+      return;
+    }
+
+    if (!step.token) {
+      warnings.push(`Step ${n} uses an unknown token.`);
+    }
+
+    if (step.source === 'pool' && !isAddressEqual(entry.to as Hex, AAVE_V3_POOL_ADDRESS)) {
+      warnings.push(`Step ${n} is sent to ${step.contract.name} instead of the Aave V3 Pool.`);
+    }
+    if (step.source === 'gateway' && !isAddressEqual(entry.to as Hex, AAVE_V3_WETH_GATEWAY_ADDRESS)) {
+      warnings.push(`Step ${n} is sent to ${step.contract.name} instead of the Aave WETH Gateway.`);
+    }
+
+    if (step.action === 'approve') {
+      if (step.spender && !step.spender.known) {
+        warnings.push(`Step ${n} approves ${step.spender.name}, which is not an Aave contract.`);
+      }
+      if (step.isMaxAmount) {
+        warnings.push(`Step ${n} grants an unlimited ${step.token?.symbol ?? 'token'} approval.`);
+      }
+    }
+
+    if (step.beneficiary && userAddress && !isAddressEqual(step.beneficiary as Hex, userAddress as Hex)) {
+      warnings.push(`Step ${n} acts on behalf of ${truncateAddress(step.beneficiary)}, not your wallet.`);
+    }
+  });
+
+  const main = getMainTxStep(steps);
+  if (!main) {
+    warnings.push('The plan does not contain an Aave supply, borrow, repay or withdraw call.');
+    return warnings;
+  }
+
+  if (main.action !== data.action.toLowerCase()) {
+    warnings.push(`The calldata performs a ${main.action}, but the preview says ${data.action}.`);
+  }
+  if (main.token && !isSameToken(main.token.symbol, data.tokenName)) {
+    warnings.push(`The calldata uses ${main.token.symbol}, but the preview says ${data.tokenName}.`);
+  }
+
+  if (main.token && main.amount !== undefined && !main.isMaxAmount) {
+    let previewAmount: bigint | null = null;
+    try {
+      previewAmount = parseTokenAmount(data.amount, main.token.decimals);
+    } catch {
+      // Non-numeric preview amounts (e.g. "max") are not compared
+    }
+    if (previewAmount !== null && previewAmount !== main.amount) {
+      warnings.push(`The calldata amount (${main.formattedAmount} ${main.token.symbol}) differs from the preview (${data.amount}).`);
+    }
+
+    const approval = steps.find((step) => step.action === 'approve' && step.token?.symbol === main.token?.symbol);
+    if (approval?.amount !== undefined && approval.amount < main.amount) {
+      warnings.push(`The approval (${approval.formattedAmount}) is lower than the ${main.action} amount (${main.formattedAmount}).`);
+    }
+  }
+
+  return warnings;
+}
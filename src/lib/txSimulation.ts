@@ -0,0 +1,226 @@
+import {
+  BaseError,
+  ContractFunctionRevertedError,
+  createPublicClient,
+  formatEther,
+  formatUnits,
+  http,
+  MethodNotFoundRpcError,
+  MethodNotSupportedRpcError,
+  type Address,
+  type Hex,
+} from 'viem';
+import { simulateCalls } from 'viem/actions';
+import { arbitrum } from 'viem/chains';
+import { getTokenInfoByAddress } from './tokenUtils';
+import type { TxPlanEntry } from './agentSchema';
+
+/**
+ * Pre-signing simulation of agent txPlans.
+ *
+ * Plans are run with `eth_simulateV1` (viem `simulateCalls`), which executes
+ * the steps in order on top of the latest block, so a supply sees the
+ * allowance granted by the preceding approval. RPCs without `eth_simulateV1`
+ * fall back to `estimateGas` per step; steps that depend on an earlier,
+ * unexecuted step are then reported as `unknown` rather than as reverts.
+ *
+ * Configuration (optional):
+ * - SIMULATION_RPC_URL: Arbitrum RPC used for simulation. Point it at a local
+ *   fork (`anvil --fork-url https://arb1.arbitrum.io/rpc`, then
+ *   `http://127.0.0.1:8545`) to simulate without touching a public node.
+ */
+
+export type SimulatedStepStatus = 'success' | 'reverted' | 'unknown';
+
+export interface SimulatedTxStep {
+  status: SimulatedStepStatus;
+  /** Gas used (simulateCalls) or estimated (estimateGas), as a decimal string */
+  gas?: string;
+  /** Revert reason or why the step could not be simulated */
+  error?: string;
+}
+
+export interface SimulatedBalanceChange {
+  token: {
+    address: string;
+    symbol: string;
+    decimals: number;
+  };
+  /** Signed change in the token's smallest unit, as a decimal string */
+  diff: string;
+  /** Signed change in token units */
+  formattedDiff: string;
+}
+
+export interface TxPlanSimulation {
+  /** Every step succeeded, or could not be checked but nothing reverted */
+  success: boolean;
+  method: 'simulateCalls' | 'estimateGas';
+  steps: SimulatedTxStep[];
+  /** Expected balance changes of the user's wallet */
+  balanceChanges: SimulatedBalanceChange[];
+  totalGas: string;
+  /** Estimated network fee at the current gas price, in ETH */
+  estimatedFee?: string;
+}
+
+export function getSimulationClient() {
+  return createPublicClient({
+    chain: arbitrum,
+    transport: http(process.env.SIMULATION_RPC_URL || undefined),
+  });
+}
+
+type SimulationClient = ReturnType<typeof getSimulationClient>;
+
+/**
+ * Extracts a readable revert reason from a simulation or estimation error.
+ */
+export function describeRevert(error: unknown): string {
+  if (error instanceof BaseError) {
+    const revert = error.walk((e) => e instanceof ContractFunctionRevertedError);
+    if (revert instanceof ContractFunctionRevertedError && revert.reason) {
+      return revert.reason;
+    }
+    return error.shortMessage;
+  }
+  return error instanceof Error ? error.message : String(error);
+}
+
+function isSimulationUnsupported(error: unknown): boolean {
+  if (!(error instanceof BaseError)) return false;
+  return Boolean(
+    error.walk(
+      (e) => e instanceof MethodNotFoundRpcError || e instanceof MethodNotSupportedRpcError
+    )
+  );
+}
+
+function toCall(entry: TxPlanEntry) {
+  return {
+    to: entry.to as Address,
+    data: entry.data as Hex,
+    value: BigInt(entry.value || '0'),
+  };
+}
+
+/**
+ * `simulateCalls` with the result shape spelled out: inferring viem's generic
+ * types exceeds the compiler's instantiation depth under this tsconfig.
+ */
+const simulatePlanCalls = simulateCalls as unknown as (
+  client: SimulationClient,
+  parameters: { account: Address; calls: ReturnType<typeof toCall>[]; traceAssetChanges: boolean }
+) => Promise<{
+  results: { status: 'success' | 'failure'; gasUsed: bigint; error?: Error }[];
+  assetChanges: {
+    token: { address: Address; decimals?: number; symbol?: string };
+    value: { pre: bigint; post: bigint; diff: bigint };
+  }[];
+}>;
+
+async function estimateFee(client: SimulationClient, totalGas: bigint) {
+  try {
+    const gasPrice = await client.getGasPrice();
+    return formatEther(totalGas * gasPrice);
+  } catch (error) {
+    console.warn('Failed to fetch gas price:', error);
+    return undefined;
+  }
+}
+
+async function simulateWithSimulateCalls(
+  client: SimulationClient,
+  txPlan: TxPlanEntry[],
+  account: Address
+): Promise<TxPlanSimulation> {
+  const { results, assetChanges } = await simulatePlanCalls(client, {
+    account,
+    calls: txPlan.map(toCall),
+    traceAssetChanges: true,
+  });
+
+  const steps: SimulatedTxStep[] = results.map((result) =>
+    result.status === 'success'
+      ? { status: 'success', gas: result.gasUsed.toString() }
+      : { status: 'reverted', gas: result.gasUsed.toString(), error: describeRevert(result.error) }
+  );
+
+  const balanceChanges: SimulatedBalanceChange[] = assetChanges
+    .filter((change) => change.value.diff !== 0n)
+    .map((change) => {
+      const known = getTokenInfoByAddress(change.token.address);
+      const decimals = change.token.decimals ?? known?.decimals ?? 18;
+      return {
+        token: {
+          address: change.token.address,
+          symbol: change.token.symbol ?? known?.symbol ?? change.token.address,
+          decimals,
+        },
+        diff: change.value.diff.toString(),
+        formattedDiff: formatUnits(change.value.diff, decimals),
+      };
+    });
+
+  const totalGas = results.reduce((sum, result) => sum + result.gasUsed, 0n);
+  return {
+    success: steps.every((step) => step.status === 'success'),
+    method: 'simulateCalls',
+    steps,
+    balanceChanges,
+    totalGas: totalGas.toString(),
+    estimatedFee: await estimateFee(client, totalGas),
+  };
+}
+
+async function simulateWithEstimateGas(
+  client: SimulationClient,
+  txPlan: TxPlanEntry[],
+  account: Address
+): Promise<TxPlanSimulation> {
+  const steps: SimulatedTxStep[] = [];
+  let totalGas = 0n;
+
+  for (const [index, entry] of txPlan.entries()) {
+    try {
+      const gas = await client.estimateGas({ account, ...toCall(entry) });
+      totalGas += gas;
+      steps.push({ status: 'success', gas: gas.toString() });
+    } catch (error) {
+      // Without sequential simulation, later steps run without the effects of earlier ones
+      steps.push(
+        index === 0
+          ? { status: 'reverted', error: describeRevert(error) }
+          : { status: 'unknown', error: `Depends on the previous step (${describeRevert(error)})` }
+      );
+    }
+  }
+
+  return {
+    success: steps.every((step) => step.status !== 'reverted'),
+    method: 'estimateGas',
+    steps,
+    balanceChanges: [],
+    totalGas: totalGas.toString(),
+    estimatedFee: await estimateFee(client, totalGas),
+  };
+}
+
+/**
+ * Simulates a txPlan for `account` without sending anything.
+ *
+ * Reverted steps are reported in the result; only RPC failures throw.
+ */
+export async function simulateTxPlan(
+  txPlan: TxPlanEntry[],
+  account: Address,
+  client: SimulationClient = getSimulationClient()
+): Promise<TxPlanSimulation> {
+  try {
+    return await simulateWithSimulateCalls(client, txPlan, account);
+  } catch (error) {
+    if (!isSimulationUnsupported(error)) throw error;
+    console.warn('eth_simulateV1 is not supported by the RPC, falling back to estimateGas');
+    return simulateWithEstimateGas(client, txPlan, account);
+  }
+}
@@ -0,0 +1,130 @@
+import { isHex, type Address, type Hex, type PublicClient } from 'viem';
+import { arbitrum } from 'viem/chains';
+import { createSiweMessage, generateSiweNonce, parseSiweMessage } from 'viem/siwe';
+import { z } from 'zod';
+
+/**
+ * Proof that a Farcaster user controls a wallet: a Sign-In with Ethereum
+ * (EIP-4361) message signed by the wallet, naming the user's FID as a
+ * `farcaster://fid/<fid>` resource.
+ *
+ * Proofs are valid for WALLET_PROOF_TTL_MS, so the user signs once and the
+ * client reuses the proof for later requests.
+ */
+
+export const WALLET_PROOF_TTL_MS = 24 * 60 * 60 * 1000;
+
+export interface WalletProof {
+  message: string;
+  signature: Hex;
+}
+
+/** Validates a proof received from a client */
+export const walletProofSchema = z
+  .object({
+    message: z.string().max(2000),
+    signature: z.string().refine((value): value is Hex => isHex(value) && value.length > 2),
+  })
+  .transform(({ message, signature }): WalletProof => ({ message, signature }));
+
+/** Carries a proof on requests without a JSON body, as URI-encoded JSON */
+export const WALLET_PROOF_HEADER = 'x-wallet-proof';
+
+export function encodeWalletProofHeader(proof: WalletProof): string {
+  return encodeURIComponent(JSON.stringify(proof));
+}
+
+/**
+ * Reads the proof in a request's WALLET_PROOF_HEADER.
+ *
+ * @returns The proof, undefined without one, or null if it is malformed
+ */
+export function getWalletProofHeader(request: Request): WalletProof | null | undefined {
+  const value = request.headers.get(WALLET_PROOF_HEADER);
+  if (value === null) return undefined;
+  try {
+    const proof = walletProofSchema.safeParse(JSON.parse(decodeURIComponent(value)));
+    return proof.success ? proof.data : null;
+  } catch {
+    return null;
+  }
+}
+
+function getFidResource(fid: number): string {
+  return `farcaster://fid/${fid}`;
+}
+
+/**
+ * Creates the message the wallet signs to prove it belongs to `fid`.
+ *
+ * @param domain - The app's hostname
+ * @param uri - The app's origin
+ */
+export function createWalletProofMessage({
+  fid,
+  address,
+  domain,
+  uri,
+  now = new Date(),
+}: {
+  fid: number;
+  address: Address;
+  domain: string;
+  uri: string;
+  now?: Date;
+}): string {
+  return createSiweMessage({
+    domain,
+    address,
+    uri,
+    version: '1',
+    chainId: arbitrum.id,
+    nonce: generateSiweNonce(),
+    statement: `Use this wallet with Farcaster account ${fid}.`,
+    resources: [getFidResource(fid)],
+    issuedAt: now,
+    expirationTime: new Date(now.getTime() + WALLET_PROOF_TTL_MS),
+  });
+}
+
+/**
+ * The time a proof's message expires at, or null if it is not a valid
+ * proof message.
+ */
+export function getWalletProofExpiry(proof: WalletProof): number | null {
+  try {
+    return parseSiweMessage(proof.message).expirationTime?.getTime() ?? null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Checks that `proof` was signed by `address` for `fid` on `domain` and has
+ * not expired. Smart contract wallets are verified through `client`.
+ */
+export async function verifyWalletProof(
+  client: Pick<PublicClient, 'verifySiweMessage'>,
+  proof: WalletProof,
+  { fid, address, domain }: { fid: number; address: Address; domain: string }
+): Promise<boolean> {
+  const message = parseSiweMessage(proof.message);
+  const now = Date.now();
+  if (
+    !message.resources?.includes(getFidResource(fid)) ||
+    !message.issuedAt ||
+    !message.expirationTime ||
+    // Reject proofs issued with a longer lifetime than the app hands out
+    message.expirationTime.getTime() - message.issuedAt.getTime() > WALLET_PROOF_TTL_MS ||
+    message.issuedAt.getTime() > now + 60 * 1000
+  ) {
+    return false;
+  }
+
+  return client.verifySiweMessage({
+    message: proof.message,
+    signature: proof.signature,
+    address,
+    domain,
+  });
+}
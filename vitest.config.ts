@@ -0,0 +1,22 @@
+import { fileURLToPath } from 'node:url';
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      '~': fileURLToPath(new URL('./src', import.meta.url)),
+    },
+  },
+  test: {
+    environment: 'node',
+    include: ['src/**/*.test.ts'],
+    restoreMocks: true,
+    unstubGlobals: true,
+    env: {
+      NEXT_PUBLIC_URL: 'https://app.example',
+      // Tests always use the in-memory KV store
+      KV_REST_API_URL: '',
+      KV_REST_API_TOKEN: '',
+    },
+  },
+});